@@ -0,0 +1,50 @@
+import type { BacklogItem, BacklogReport, BusinessCalendar, IssueData } from './types.ts';
+import { calculateWorkingHours } from './utils.ts';
+import { DEFAULT_CALENDAR } from './calendar.ts';
+
+/**
+ * Backlog age buckets in whole business days (upper bound inclusive)
+ */
+export const BACKLOG_AGE_BUCKETS: Array<{ label: string; maxDays: number }> = [
+  { label: '<1 day', maxDays: 0 },
+  { label: '1-2 days', maxDays: 2 },
+  { label: '3-5 days', maxDays: 5 },
+  { label: '6-10 days', maxDays: 10 },
+  { label: '>10 days', maxDays: Infinity },
+];
+
+/**
+ * Group open unanswered items by business-day age and repository
+ */
+export function calculateBacklogReport(
+  data: IssueData[],
+  calendar: BusinessCalendar = DEFAULT_CALENDAR,
+  now: Date = new Date()
+): BacklogReport {
+  const workdayHours = (calendar.workdayEndMinutes - calendar.workdayStartMinutes) / 60;
+
+  const items: BacklogItem[] = data
+    .filter(item => item.firstResponseAt === null && item.state === 'open')
+    .map(item => {
+      const ageHours = calculateWorkingHours(item.measuredFrom ?? item.createdAt, now, calendar);
+      return { item, ageHours, ageBusinessDays: ageHours / workdayHours };
+    })
+    .sort((a, b) => (a.item.measuredFrom ?? a.item.createdAt).getTime() - (b.item.measuredFrom ?? b.item.createdAt).getTime());
+
+  const ageBuckets = BACKLOG_AGE_BUCKETS.map(bucket => ({ label: bucket.label, items: [] as BacklogItem[] }));
+  for (const backlogItem of items) {
+    const index = BACKLOG_AGE_BUCKETS.findIndex(bucket => Math.floor(backlogItem.ageBusinessDays) <= bucket.maxDays);
+    ageBuckets[index].items.push(backlogItem);
+  }
+
+  const repoCounts = new Map<string, number>();
+  for (const backlogItem of items) {
+    repoCounts.set(backlogItem.item.repository, (repoCounts.get(backlogItem.item.repository) || 0) + 1);
+  }
+
+  const repositories = Array.from(repoCounts.entries())
+    .map(([repository, count]) => ({ repository, count }))
+    .sort((a, b) => b.count - a.count || a.repository.localeCompare(b.repository));
+
+  return { generatedAt: now, items, ageBuckets, repositories };
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ExclusionReason, IssueData } from './types.ts';
+import { ResponseCache } from './cache.ts';
+import { testItem } from './test-data.ts';
+
+const updatedAt = '2024-01-02T10:00:00Z';
+const answered = testItem({ number: 1 });
+const unanswered = testItem({ number: 2, firstResponseAt: null, responseTimeHours: null, respondedBy: null, respondedWithinOneDay: false });
+
+let cacheDir: string;
+
+beforeEach(async () => {
+  cacheDir = await mkdtemp(join(tmpdir(), 'cache-'));
+});
+
+afterEach(async () => {
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+/**
+ * Save the items to the api cache file and load it back into a new cache
+ */
+async function roundTrip(items: Array<[number, IssueData | ExclusionReason]>, fingerprint: string = 'rules'): Promise<ResponseCache> {
+  const writer = new ResponseCache(cacheDir, 'acme', false, 'rules');
+  for (const [number, item] of items) writer.set('api', number, updatedAt, item);
+  await writer.save('api');
+
+  const reader = new ResponseCache(cacheDir, 'acme', false, fingerprint);
+  await reader.load('api');
+  return reader;
+}
+
+describe('ResponseCache', () => {
+  test('reuses an answered item while its updated_at is unchanged', async () => {
+    const cache = await roundTrip([[1, answered]]);
+
+    expect(cache.get('api', 1, updatedAt)).toEqual(answered);
+    expect(cache.get('api', 1, '2024-01-03T10:00:00Z')).toBeUndefined();
+    expect(cache.get('api', 3, updatedAt)).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 2 });
+  });
+
+  test('always re-checks an unanswered item', async () => {
+    const cache = await roundTrip([[2, unanswered]]);
+
+    expect(cache.get('api', 2, updatedAt)).toBeUndefined();
+  });
+
+  test('returns the reason of a cached exclusion', async () => {
+    const cache = await roundTrip([[3, 'spam'], [4, 'author-closed']]);
+
+    expect(cache.get('api', 3, updatedAt)).toBe('spam');
+    expect(cache.get('api', 4, updatedAt)).toBe('author-closed');
+  });
+
+  test('ignores a file written with another fingerprint or version', async () => {
+    expect((await roundTrip([[1, answered]], 'other rules')).get('api', 1, updatedAt)).toBeUndefined();
+
+    const path = join(cacheDir, 'acme', 'api.json');
+    const content = await Bun.file(path).json();
+    await Bun.write(path, JSON.stringify({ ...content, version: content.version + 1 }));
+    const cache = new ResponseCache(cacheDir, 'acme', false, 'rules');
+    await cache.load('api');
+
+    expect(cache.get('api', 1, updatedAt)).toBeUndefined();
+  });
+
+  test('ignores the file when refreshing', async () => {
+    await roundTrip([[1, answered]]);
+    const cache = new ResponseCache(cacheDir, 'acme', true, 'rules');
+    await cache.load('api');
+
+    expect(cache.get('api', 1, updatedAt)).toBeUndefined();
+  });
+
+  test('stores an org/repo name under its own organization and labels items with it', async () => {
+    const cache = new ResponseCache(cacheDir, 'acme');
+    cache.set('other/web', 1, updatedAt, answered);
+    await cache.save('other/web');
+
+    expect(await Bun.file(join(cacheDir, 'other', 'web.json')).exists()).toBe(true);
+
+    const reader = new ResponseCache(cacheDir, 'acme');
+    await reader.load('other/web');
+    expect(reader.get('other/web', 1, updatedAt)).toEqual({ ...answered, repository: 'other/web' });
+  });
+});
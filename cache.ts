@@ -0,0 +1,244 @@
+import type { ContributorHistory, ExclusionReason, IssueData } from './types.ts';
+
+// Bump when the cached IssueData shape changes; files with another version are ignored
+const CACHE_VERSION = 5;
+
+/**
+ * A cached item as stored on disk. `issue` is null when the item was
+ * fetched but deliberately excluded (e.g. closed by its author without a response), with the reason.
+ */
+interface CacheEntry {
+  updatedAt: string;
+  issue: SerializedIssueData | null;
+  excludedBecause?: ExclusionReason;
+}
+
+type SerializedIssueData = Omit<IssueData, 'createdAt' | 'measuredFrom' | 'firstResponseAt' | 'weekStarting' | 'closedAt' | 'mergedAt'> & {
+  createdAt: string;
+  measuredFrom: string | null;
+  firstResponseAt: string | null;
+  weekStarting: string;
+  closedAt: string | null;
+  mergedAt: string | null;
+};
+
+type RepoCache = Record<string, CacheEntry>;
+
+interface CacheFile {
+  version: number;
+  fingerprint: string;
+  items: RepoCache;
+}
+
+/**
+ * Contributor histories as stored on disk, for the organizations they were searched in
+ */
+interface ContributorCacheFile {
+  version: number;
+  organizations: string;
+  histories: Record<string, { firstContributionAt: string; secondContributionAt: string }>;
+}
+
+function serializeIssue(issue: IssueData): SerializedIssueData {
+  return {
+    ...issue,
+    createdAt: issue.createdAt.toISOString(),
+    measuredFrom: issue.measuredFrom ? issue.measuredFrom.toISOString() : null,
+    firstResponseAt: issue.firstResponseAt ? issue.firstResponseAt.toISOString() : null,
+    weekStarting: issue.weekStarting.toISOString(),
+    closedAt: issue.closedAt ? issue.closedAt.toISOString() : null,
+    mergedAt: issue.mergedAt ? issue.mergedAt.toISOString() : null,
+  };
+}
+
+function deserializeIssue(issue: SerializedIssueData): IssueData {
+  return {
+    ...issue,
+    createdAt: new Date(issue.createdAt),
+    measuredFrom: issue.measuredFrom ? new Date(issue.measuredFrom) : null,
+    firstResponseAt: issue.firstResponseAt ? new Date(issue.firstResponseAt) : null,
+    weekStarting: new Date(issue.weekStarting),
+    closedAt: issue.closedAt ? new Date(issue.closedAt) : null,
+    mergedAt: issue.mergedAt ? new Date(issue.mergedAt) : null,
+  };
+}
+
+/**
+ * On-disk cache of processed issues and PRs, one JSON file per repository.
+ * Entries are keyed by item number and invalidated when `updated_at` changes.
+ * The fingerprint describes settings that affect how items are processed (e.g. response rules);
+ * a cache file written with a different fingerprint is ignored.
+ */
+export class ResponseCache {
+  private cacheDir: string;
+  private organization: string;
+  private refresh: boolean;
+  private fingerprint: string;
+  private repos: Map<string, RepoCache>;
+  private contributors: Map<string, ContributorHistory>;
+  private hits: number;
+  private misses: number;
+
+  constructor(cacheDir: string, organization: string, refresh: boolean = false, fingerprint: string = '') {
+    this.cacheDir = cacheDir;
+    this.organization = organization;
+    this.refresh = refresh;
+    this.fingerprint = fingerprint;
+    this.repos = new Map();
+    this.contributors = new Map();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Cache file of a repository: <cacheDir>/<org>/<repo>.json, with org taken from an org/repo name
+   */
+  private repoPath(repo: string): string {
+    if (repo.includes('/')) return `${this.cacheDir}/${repo}.json`;
+    return `${this.cacheDir}/${this.organization}/${repo}.json`;
+  }
+
+  /**
+   * Load the cache file for a repository (no-op when refreshing or already loaded)
+   */
+  async load(repo: string): Promise<void> {
+    if (this.repos.has(repo)) return;
+
+    const file = Bun.file(this.repoPath(repo));
+    if (this.refresh || !(await file.exists())) {
+      this.repos.set(repo, {});
+      return;
+    }
+
+    try {
+      const content: CacheFile = await file.json();
+      const valid = content.version === CACHE_VERSION && content.fingerprint === this.fingerprint;
+      this.repos.set(repo, valid ? content.items : {});
+    } catch (error: any) {
+      console.warn(`  ⚠️  Ignoring unreadable cache file ${this.repoPath(repo)}: ${error.message}`);
+      this.repos.set(repo, {});
+    }
+  }
+
+  /**
+   * Look up a cached item.
+   * Returns undefined on a miss, the exclusion reason for a cached exclusion, or the cached IssueData.
+   * Only items whose first response is known (or that were excluded) are reused,
+   * so unanswered items are always re-checked.
+   */
+  get(repo: string, number: number, updatedAt: string): IssueData | ExclusionReason | undefined {
+    const entry = this.repos.get(repo)?.[number];
+
+    if (!entry || entry.updatedAt !== updatedAt) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.issue === null) {
+      this.hits++;
+      return entry.excludedBecause ?? 'author-closed';
+    }
+
+    if (entry.issue.firstResponseAt === null) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Label the item with the name in use: the same file serves org/repo names when tracking several organizations
+    this.hits++;
+    return { ...deserializeIssue(entry.issue), repository: repo };
+  }
+
+  /**
+   * Store a processed item, or the reason it was excluded
+   */
+  set(repo: string, number: number, updatedAt: string, issue: IssueData | ExclusionReason): void {
+    if (!this.repos.has(repo)) {
+      this.repos.set(repo, {});
+    }
+
+    this.repos.get(repo)![number] = typeof issue === 'string'
+      ? { updatedAt, issue: null, excludedBecause: issue }
+      : { updatedAt, issue: serializeIssue(issue) };
+  }
+
+  /**
+   * Write the cache file for a repository
+   */
+  async save(repo: string): Promise<void> {
+    const entries = this.repos.get(repo);
+    if (!entries) return;
+
+    const content: CacheFile = { version: CACHE_VERSION, fingerprint: this.fingerprint, items: entries };
+    await Bun.write(this.repoPath(repo), JSON.stringify(content, null, 2));
+  }
+
+  /**
+   * Contributor history file, next to the repository files of the organization
+   */
+  private contributorsPath(): string {
+    return `${this.cacheDir}/${this.organization}/.contributors.json`;
+  }
+
+  /**
+   * Load the contributor histories searched in the given organizations (no-op when refreshing)
+   */
+  async loadContributors(organizations: string[]): Promise<void> {
+    const file = Bun.file(this.contributorsPath());
+    if (this.refresh || !(await file.exists())) return;
+
+    try {
+      const content: ContributorCacheFile = await file.json();
+      if (content.version !== CACHE_VERSION || content.organizations !== organizations.join(',')) return;
+
+      for (const [login, history] of Object.entries(content.histories)) {
+        this.contributors.set(login, {
+          login,
+          firstContributionAt: new Date(history.firstContributionAt),
+          secondContributionAt: new Date(history.secondContributionAt),
+        });
+      }
+    } catch (error: any) {
+      console.warn(`  ⚠️  Ignoring unreadable cache file ${this.contributorsPath()}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Look up a cached contributor history
+   */
+  getContributor(login: string): ContributorHistory | undefined {
+    return this.contributors.get(login);
+  }
+
+  /**
+   * Store a contributor history. Only histories with both contributions known are kept,
+   * since a first-timer's second contribution may still come.
+   */
+  setContributor(history: ContributorHistory): void {
+    if (history.secondContributionAt !== null) {
+      this.contributors.set(history.login, history);
+    }
+  }
+
+  /**
+   * Write the contributor history file
+   */
+  async saveContributors(organizations: string[]): Promise<void> {
+    const content: ContributorCacheFile = {
+      version: CACHE_VERSION,
+      organizations: organizations.join(','),
+      histories: Object.fromEntries(Array.from(this.contributors.values()).map(history => [history.login, {
+        firstContributionAt: history.firstContributionAt.toISOString(),
+        secondContributionAt: history.secondContributionAt!.toISOString(),
+      }])),
+    };
+    await Bun.write(this.contributorsPath(), JSON.stringify(content, null, 2));
+  }
+
+  /**
+   * Get hit/miss counts for the current run
+   */
+  getStats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+}
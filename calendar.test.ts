@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import type { BusinessCalendar } from './types.ts';
+import { parseIcsHolidays, timeToMinutes, workingIntervals } from './calendar.ts';
+import { calculateWorkingHours } from './utils.ts';
+
+function calendar(timezone: string, holidays: string[] = []): BusinessCalendar {
+  return { timezone, workdayStartMinutes: 9 * 60, workdayEndMinutes: 17 * 60, holidays: new Set(holidays), slaHours: 8 };
+}
+
+const intervals = (start: string, end: string, businessCalendar: BusinessCalendar) =>
+  Array.from(workingIntervals(new Date(start), new Date(end), businessCalendar))
+    .map(interval => [interval.start.toISOString(), interval.end.toISOString()]);
+
+describe('workingIntervals', () => {
+  test('skips the weekend', () => {
+    expect(intervals('2024-01-05T16:00:00Z', '2024-01-08T10:00:00Z', calendar('UTC'))).toEqual([
+      ['2024-01-05T16:00:00.000Z', '2024-01-05T17:00:00.000Z'],
+      ['2024-01-08T09:00:00.000Z', '2024-01-08T10:00:00.000Z'],
+    ]);
+  });
+
+  test('skips holidays', () => {
+    expect(intervals('2023-12-29T16:00:00Z', '2024-01-02T10:00:00Z', calendar('UTC', ['2024-01-01']))).toEqual([
+      ['2023-12-29T16:00:00.000Z', '2023-12-29T17:00:00.000Z'],
+      ['2024-01-02T09:00:00.000Z', '2024-01-02T10:00:00.000Z'],
+    ]);
+  });
+
+  test('follows the offset change at a DST switch', () => {
+    // Helsinki moves from UTC+2 to UTC+3 on Sunday 2024-03-31
+    expect(intervals('2024-03-29T14:00:00Z', '2024-04-01T07:00:00Z', calendar('Europe/Helsinki'))).toEqual([
+      ['2024-03-29T14:00:00.000Z', '2024-03-29T15:00:00.000Z'],
+      ['2024-04-01T06:00:00.000Z', '2024-04-01T07:00:00.000Z'],
+    ]);
+  });
+});
+
+describe('calculateWorkingHours', () => {
+  test('counts working hours in the calendar timezone', () => {
+    // 08:00 to 18:00 in New York (UTC-5) covers the full 09:00-17:00 working day
+    expect(calculateWorkingHours(new Date('2024-01-08T13:00:00Z'), new Date('2024-01-08T23:00:00Z'), calendar('America/New_York'))).toBe(8);
+  });
+
+  test('counts across a weekend, a holiday and a DST switch', () => {
+    const utc = calendar('UTC', ['2024-01-01']);
+    expect(calculateWorkingHours(new Date('2024-01-05T16:00:00Z'), new Date('2024-01-08T10:00:00Z'), utc)).toBe(2);
+    expect(calculateWorkingHours(new Date('2023-12-29T16:00:00Z'), new Date('2024-01-02T10:00:00Z'), utc)).toBe(2);
+    expect(calculateWorkingHours(new Date('2024-03-29T14:00:00Z'), new Date('2024-04-01T07:00:00Z'), calendar('Europe/Helsinki'))).toBe(2);
+  });
+
+  test('is zero when the end is before the start', () => {
+    expect(calculateWorkingHours(new Date('2024-01-08T12:00:00Z'), new Date('2024-01-08T10:00:00Z'), calendar('UTC'))).toBe(0);
+  });
+});
+
+describe('parseIcsHolidays', () => {
+  test('expands all-day events and skips timed ones', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20241224',
+      'DTEND;VALUE=DATE:20241227',
+      'SUMMARY:Christmas',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20240101',
+      'SUMMARY:New Year',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20240315T140000Z',
+      'DTEND:20240317T150000Z',
+      'SUMMARY:Offsite',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcsHolidays(ics)).toEqual({ dates: ['2024-12-24', '2024-12-25', '2024-12-26', '2024-01-01'], timedEvents: 1 });
+  });
+});
+
+describe('timeToMinutes', () => {
+  test('accepts H:MM and HH:MM from 00:00 to 24:00', () => {
+    expect(['0:00', '9:30', '09:30', '23:59', '24:00'].map(timeToMinutes)).toEqual([0, 570, 570, 1439, 1440]);
+  });
+
+  test('rejects malformed and out-of-range times', () => {
+    expect(['9', '9:5', '09:60', '24:01', '25:00', '123:00', ' 9:00'].map(timeToMinutes)).toEqual(Array(7).fill(null));
+  });
+});
@@ -0,0 +1,284 @@
+import type { BusinessCalendar, BusinessCalendarConfig } from './types.ts';
+
+/**
+ * Default calendar: every weekday counts in full (00:00-24:00) in the process timezone,
+ * with a one-day (24 hour) SLA
+ */
+export const DEFAULT_CALENDAR: BusinessCalendar = {
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  workdayStartMinutes: 0,
+  workdayEndMinutes: 24 * 60,
+  holidays: new Set(),
+  slaHours: 24,
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the calendar date and time of an instant as seen in a timezone
+ */
+export function getZonedParts(date: Date, timezone: string): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+} {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+export function getTimezoneOffset(timestamp: number, timezone: string): number {
+  const p = getZonedParts(new Date(timestamp), timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a Date.
+ * Day and minute values may overflow (e.g. minutes = 1440 is midnight of the next day).
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  minutes: number,
+  timezone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = getTimezoneOffset(guess, timezone);
+  let result = guess - offset;
+
+  // Re-check the offset at the result in case it falls on the other side of a DST change
+  const correctedOffset = getTimezoneOffset(result, timezone);
+  if (correctedOffset !== offset) {
+    result = guess - correctedOffset;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Format a calendar date as YYYY-MM-DD
+ */
+export function toDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Check whether a calendar date is a working day (not a weekend or holiday)
+ */
+export function isWorkingDay(year: number, month: number, day: number, calendar: BusinessCalendar): boolean {
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (dayOfWeek === 0 || dayOfWeek === 6) return false;
+  return !calendar.holidays.has(toDateKey(year, month, day));
+}
+
+/**
+ * Get the working intervals of each calendar day overlapping [start, end)
+ */
+export function* workingIntervals(
+  start: Date,
+  end: Date,
+  calendar: BusinessCalendar
+): Generator<{ start: Date; end: Date }> {
+  const first = getZonedParts(start, calendar.timezone);
+  const cursor = new Date(Date.UTC(first.year, first.month - 1, first.day));
+
+  while (true) {
+    const year = cursor.getUTCFullYear();
+    const month = cursor.getUTCMonth() + 1;
+    const day = cursor.getUTCDate();
+
+    const dayStart = zonedTimeToDate(year, month, day, 0, calendar.timezone);
+    if (dayStart >= end) return;
+
+    if (isWorkingDay(year, month, day, calendar)) {
+      const workStart = zonedTimeToDate(year, month, day, calendar.workdayStartMinutes, calendar.timezone);
+      const workEnd = zonedTimeToDate(year, month, day, calendar.workdayEndMinutes, calendar.timezone);
+      const intervalStart = workStart > start ? workStart : start;
+      const intervalEnd = workEnd < end ? workEnd : end;
+
+      if (intervalEnd > intervalStart) {
+        yield { start: intervalStart, end: intervalEnd };
+      }
+    }
+
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+}
+
+/**
+ * Minutes since midnight of a H:MM or HH:MM time from 00:00 to 24:00 (the end of the day),
+ * or null when the time is malformed or out of range. Shared with the config schema.
+ */
+export function timeToMinutes(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (minutes > 59 || hours * 60 + minutes > 24 * 60) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse a HH:MM time into minutes since midnight (24:00 is accepted as the end of the day)
+ */
+function parseTime(value: string, field: string): number {
+  const minutes = timeToMinutes(value);
+  if (minutes === null) {
+    throw new Error(`Invalid time "${value}" in businessCalendar.${field} (expected HH:MM between 00:00 and 24:00)`);
+  }
+  return minutes;
+}
+
+/**
+ * Format minutes since midnight as HH:MM
+ */
+function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Describe a calendar in one line for logging
+ */
+export function describeCalendar(calendar: BusinessCalendar): string {
+  return `${calendar.timezone}, ${formatTime(calendar.workdayStartMinutes)}-${formatTime(calendar.workdayEndMinutes)}, ` +
+    `${calendar.holidays.size} holidays, SLA ${calendar.slaHours}h`;
+}
+
+/**
+ * Extract all-day event dates from ICS content.
+ * Multi-day events (DTEND exclusive, as per RFC 5545) are expanded to every covered date.
+ * Timed events (e.g. a meeting in a holiday feed) are not holidays; they are only counted.
+ */
+export function parseIcsHolidays(content: string): { dates: string[]; timedEvents: number } {
+  const dates: string[] = [];
+  let timedEvents = 0;
+  // Unfold continuation lines before parsing
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  // A date value (YYYYMMDD, with or without VALUE=DATE) marks an all-day event; date-times have a time part
+  const dateValue = (line: string) => {
+    const value = line.split(':').pop()!.trim();
+    return /^\d{8}$/.test(value) ? value : null;
+  };
+
+  let eventStart: string | null = null;
+  let eventEnd: string | null = null;
+  let timed = false;
+
+  for (const line of lines) {
+    if (line.startsWith('BEGIN:VEVENT')) {
+      eventStart = null;
+      eventEnd = null;
+      timed = false;
+    } else if (line.startsWith('DTSTART')) {
+      eventStart = dateValue(line);
+      timed = eventStart === null;
+    } else if (line.startsWith('DTEND')) {
+      eventEnd = dateValue(line);
+    } else if (line.startsWith('END:VEVENT')) {
+      if (timed) {
+        timedEvents++;
+        continue;
+      }
+      if (!eventStart) continue;
+
+      const toUtc = (value: string) =>
+        Date.UTC(parseInt(value.slice(0, 4), 10), parseInt(value.slice(4, 6), 10) - 1, parseInt(value.slice(6, 8), 10));
+
+      const startTime = toUtc(eventStart);
+      const endTime = eventEnd ? toUtc(eventEnd) : startTime + 86400000;
+
+      for (let time = startTime; time < Math.max(endTime, startTime + 86400000); time += 86400000) {
+        dates.push(new Date(time).toISOString().split('T')[0]);
+      }
+    }
+  }
+
+  return { dates, timedEvents };
+}
+
+/**
+ * Resolve the business calendar configuration, loading holidays from an ICS file if configured
+ */
+export async function loadBusinessCalendar(config?: BusinessCalendarConfig): Promise<BusinessCalendar> {
+  if (!config) return DEFAULT_CALENDAR;
+
+  const timezone = config.timezone || DEFAULT_CALENDAR.timezone;
+  try {
+    getFormatter(timezone);
+  } catch {
+    throw new Error(`Invalid timezone "${timezone}" in businessCalendar.timezone`);
+  }
+
+  const workdayStartMinutes = config.workingHours
+    ? parseTime(config.workingHours.start, 'workingHours.start')
+    : DEFAULT_CALENDAR.workdayStartMinutes;
+  const workdayEndMinutes = config.workingHours
+    ? parseTime(config.workingHours.end, 'workingHours.end')
+    : DEFAULT_CALENDAR.workdayEndMinutes;
+
+  if (workdayEndMinutes <= workdayStartMinutes) {
+    throw new Error('businessCalendar.workingHours.end must be later than workingHours.start');
+  }
+
+  const holidays = new Set(config.holidays || []);
+
+  if (config.holidaysIcsFile) {
+    const icsFile = Bun.file(config.holidaysIcsFile);
+    if (!(await icsFile.exists())) {
+      throw new Error(`Holiday calendar not found at ${config.holidaysIcsFile}`);
+    }
+    const { dates, timedEvents } = parseIcsHolidays(await icsFile.text());
+    dates.forEach(date => holidays.add(date));
+    if (timedEvents > 0) {
+      console.warn(`⚠️  Skipped ${timedEvents} timed events in ${config.holidaysIcsFile}; only all-day events count as holidays`);
+    }
+  }
+
+  return {
+    timezone,
+    workdayStartMinutes,
+    workdayEndMinutes,
+    holidays,
+    // Default SLA is one full working day
+    slaHours: config.slaHours ?? (workdayEndMinutes - workdayStartMinutes) / 60,
+  };
+}
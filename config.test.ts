@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { Octokit } from '@octokit/rest';
+import type { Config } from './types.ts';
+import { checkConfigAgainstGitHub } from './config.ts';
+
+// Repositories and teams that exist, per owner
+const repositories: Record<string, string[]> = { acme: ['api'], other: ['web'] };
+const teams: Record<string, string[]> = { acme: ['core'], other: ['maintainers'] };
+
+/**
+ * A client answering organization, repository and team lookups from the lists above
+ */
+function fakeOctokit(): Octokit {
+  const octokit = new Octokit();
+
+  octokit.hook.wrap('request', async (_request, options) => {
+    const { url } = octokit.request.endpoint.parse(options);
+    const path = new URL(url).pathname;
+    const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+    const found = (data: unknown) => ({ status: 200, url, headers: {}, data });
+
+    const org = path.match(/^\/orgs\/([^/]+)$/);
+    if (org) return found({ login: org[1] });
+    const repo = path.match(/^\/repos\/([^/]+)\/([^/]+)$/);
+    if (repo) {
+      if (repositories[repo[1]]?.includes(repo[2])) return found({ name: repo[2] });
+      throw notFound();
+    }
+    const team = path.match(/^\/orgs\/([^/]+)\/teams\/([^/]+)$/);
+    if (team) {
+      if (teams[team[1]]?.includes(team[2])) return found({ slug: team[2] });
+      throw notFound();
+    }
+    const repoList = path.match(/^\/orgs\/([^/]+)\/repos$/);
+    if (repoList) return found((repositories[repoList[1]] ?? []).map(name => ({ name })));
+    const teamList = path.match(/^\/orgs\/([^/]+)\/teams$/);
+    if (teamList) return found((teams[teamList[1]] ?? []).map(slug => ({ slug })));
+    throw new Error(`Unexpected request ${path}`);
+  });
+
+  return octokit;
+}
+
+describe('checkConfigAgainstGitHub', () => {
+  test('looks up org/repo and org/team entries under their own organization', async () => {
+    const config: Config = {
+      organization: 'acme',
+      repositories: ['api', 'other/web', 'other/wbe'],
+      excludeTeams: ['core', 'other/maintainers'],
+    };
+
+    const checks = await checkConfigAgainstGitHub(config, fakeOctokit());
+
+    expect(checks).toEqual([
+      { label: 'Organization acme', ok: true },
+      { label: 'Repository acme/api', ok: true },
+      { label: 'Repository other/web', ok: true },
+      { label: 'Repository other/wbe', ok: false, detail: 'not found in other or not visible with this token (did you mean "web"?)' },
+      { label: 'Team acme/core', ok: true },
+      { label: 'Team other/maintainers', ok: true },
+    ]);
+  });
+});
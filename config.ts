@@ -0,0 +1,451 @@
+import { z } from 'zod';
+import type { Octokit } from '@octokit/rest';
+import type { Config } from './types.ts';
+import { ALL_RESPONSE_EVENTS } from './responses.ts';
+import { NOTIFIER_TEMPLATES, NOTIFIER_TYPES } from './notifiers.ts';
+import { getOrganizations, splitOwner } from './repositories.ts';
+import { UNGROUPED_LABEL_GROUP } from './labels.ts';
+import { timeToMinutes } from './calendar.ts';
+
+/**
+ * Config files looked for when no --config is given, in order
+ */
+export const DEFAULT_CONFIG_FILES = ['config.json', 'config.yaml', 'config.yml'];
+
+const timeOfDay = z.string().refine(value => timeToMinutes(value) !== null, 'Expected a time as HH:MM between 00:00 and 24:00');
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+const businessCalendarSchema = z.strictObject({
+  timezone: z.string().optional(),
+  workingHours: z.strictObject({ start: timeOfDay, end: timeOfDay }).optional(),
+  holidays: z.array(isoDate).optional(),
+  holidaysIcsFile: z.string().optional(),
+  slaHours: z.number().positive().optional(),
+});
+
+const notifierSchema = z.strictObject({
+  type: z.enum(NOTIFIER_TYPES),
+  template: z.enum(NOTIFIER_TEMPLATES).optional(),
+  webhookUrl: z.url().optional(),
+  botToken: z.string().optional(),
+  channelId: z.string().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  smtp: z.strictObject({
+    host: z.string().min(1),
+    port: z.number().int().min(1).max(65535).optional(),
+    tls: z.enum(['starttls', 'implicit', 'none']).optional(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+  }).optional(),
+  from: z.email().optional(),
+  to: z.array(z.email()).min(1).optional(),
+});
+
+const repositoryDiscoverySchema = z.strictObject({
+  visibility: z.enum(['public', 'private', 'all']).optional(),
+  includeArchived: z.boolean().optional(),
+  includeForks: z.boolean().optional(),
+  topics: z.array(z.string().min(1)).optional(),
+  include: z.array(z.string().min(1)).optional(),
+});
+
+const regularExpression = z.string().min(1).refine(pattern => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid regular expression');
+
+const itemFiltersSchema = z.strictObject({
+  includeLabels: z.array(z.string().min(1)).optional(),
+  excludeLabels: z.array(z.string().min(1)).optional(),
+  includeTitle: regularExpression.optional(),
+  excludeTitle: regularExpression.optional(),
+});
+
+const exclusionRulesSchema = z.strictObject({
+  authorClosed: z.boolean().optional(),
+  draftPullRequests: z.enum(['count', 'skip', 'ready-for-review']).optional(),
+  locked: z.boolean().optional(),
+  transferredIssues: z.boolean().optional(),
+  spam: z.boolean().optional(),
+  spamLabels: z.array(z.string().min(1)).min(1).optional(),
+});
+
+const organizationSchema = z.strictObject({
+  organization: z.string().min(1),
+  repositories: z.array(z.string().min(1)).optional(),
+  repositoryDiscovery: repositoryDiscoverySchema.optional(),
+  excludeRepositories: z.array(z.string().min(1)).optional(),
+  excludeTeams: z.array(z.string()).optional(),
+}).refine(org => (org.repositories?.length ?? 0) > 0 || org.repositoryDiscovery, {
+  path: ['repositories'],
+  message: 'List at least one repository or set repositoryDiscovery',
+});
+
+// Top-level fields that describe a single organization and can't be combined with organizations
+const SINGLE_ORGANIZATION_KEYS = ['organization', 'repositories', 'repositoryDiscovery', 'excludeRepositories', 'excludeTeams'] as const;
+
+/**
+ * Schema of the config file. Checked against the Config type so the two can't drift apart.
+ */
+export const configSchema = z.strictObject({
+  githubToken: z.string().optional(),
+  organization: z.string().min(1).optional(),
+  repositories: z.array(z.string().min(1)).default([]),
+  repositoryDiscovery: repositoryDiscoverySchema.optional(),
+  excludeRepositories: z.array(z.string().min(1)).optional(),
+  excludeTeams: z.array(z.string()).default([]),
+  organizations: z.array(organizationSchema).min(1).optional(),
+  excludeBots: z.array(z.string()).optional(),
+  cacheDir: z.string().optional(),
+  businessCalendar: businessCalendarSchema.optional(),
+  fetcher: z.enum(['rest', 'graphql']).optional(),
+  rateLimits: z.strictObject({
+    maxConcurrentRequests: z.number().int().min(1).optional(),
+    maxRetries: z.number().int().nonnegative().optional(),
+    maxWaitMinutes: z.number().nonnegative().optional(),
+  }).optional(),
+  responseRules: z.strictObject({ events: z.array(z.enum(ALL_RESPONSE_EVENTS)) }).optional(),
+  watch: z.strictObject({
+    warnAfterHours: z.number().nonnegative().optional(),
+    stateFile: z.string().optional(),
+  }).optional(),
+  historyFile: z.string().optional(),
+  targetPercentage: z.number().min(0).max(100).optional(),
+  notifiers: z.array(notifierSchema).optional(),
+  labelGroups: z.record(z.string().min(1), z.array(z.string().min(1)).min(1)).optional(),
+  filters: itemFiltersSchema.optional(),
+  exclusionRules: exclusionRulesSchema.optional(),
+}).superRefine((config, ctx) => {
+  if (config.organizations) {
+    for (const key of SINGLE_ORGANIZATION_KEYS) {
+      const value = config[key];
+      if (Array.isArray(value) ? value.length > 0 : value !== undefined) {
+        ctx.addIssue({ code: 'custom', path: [key], message: 'Set this inside each organizations entry instead' });
+      }
+    }
+  } else if (!config.organization) {
+    ctx.addIssue({ code: 'custom', path: ['organization'], message: 'Set organization, or list several in organizations' });
+  } else if (config.repositories.length === 0 && !config.repositoryDiscovery) {
+    ctx.addIssue({ code: 'custom', path: ['repositories'], message: 'List at least one repository or set repositoryDiscovery' });
+  }
+
+  // Items without a group are reported under this name, so a group of that name would be merged with them
+  if (config.labelGroups && UNGROUPED_LABEL_GROUP in config.labelGroups) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['labelGroups', UNGROUPED_LABEL_GROUP],
+      message: `"${UNGROUPED_LABEL_GROUP}" is reserved for items without a label of any group`,
+    });
+  }
+}) satisfies z.ZodType<Config>;
+
+export interface LoadedConfig {
+  config: Config;
+  warnings: string[];  // Unknown keys that were ignored
+}
+
+/**
+ * Result of checking one configured GitHub resource
+ */
+export interface ConfigCheck {
+  label: string;
+  ok: boolean;
+  detail?: string;
+}
+
+/**
+ * Format a value path like notifiers[0].smtp.port
+ */
+function formatPath(path: PropertyKey[]): string {
+  if (path.length === 0) return '(root)';
+
+  return path.map((segment, index) => {
+    if (typeof segment === 'number') return `[${segment}]`;
+    return index === 0 ? String(segment) : `.${String(segment)}`;
+  }).join('');
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the candidate closest to a misspelled name, if any is close enough to be a likely typo
+ */
+export function closestMatch(name: string, candidates: string[]): string | null {
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+  let best: string | null = null;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The keys the schema allows for the object at a path (used to suggest fixes for unknown keys)
+ */
+function knownKeysAt(path: PropertyKey[]): string[] {
+  const unwrap = (schema: z.ZodType): z.ZodType => {
+    while (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+      schema = schema.unwrap() as z.ZodType;
+    }
+    return schema;
+  };
+
+  let schema: z.ZodType | undefined = configSchema;
+  for (const segment of path) {
+    if (schema instanceof z.ZodObject) {
+      schema = schema.shape[String(segment)];
+    } else if (schema instanceof z.ZodArray) {
+      schema = schema.element as z.ZodType;
+    } else {
+      return [];
+    }
+    if (!schema) return [];
+    schema = unwrap(schema);
+  }
+
+  return schema instanceof z.ZodObject ? Object.keys(schema.shape) : [];
+}
+
+/**
+ * A ${NAME} reference to an environment variable that isn't set
+ */
+interface UnsetVariable {
+  path: PropertyKey[];
+  name: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Replace ${NAME} in every string value with the environment variable NAME ($${NAME} is kept as ${NAME}).
+ * Variables that aren't set are collected in `unset` with the path of the value.
+ */
+function interpolateEnv(value: unknown, path: PropertyKey[], unset: UnsetVariable[]): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$?\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (match, name: string) => {
+      if (match.startsWith('$$')) return match.slice(1);
+
+      const envValue = process.env[name];
+      if (envValue === undefined) {
+        unset.push({ path, name });
+        return match;
+      }
+      return envValue;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => interpolateEnv(entry, [...path, index], unset));
+  }
+
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, interpolateEnv(entry, [...path, key], unset)])
+    );
+  }
+
+  return value;
+}
+
+function removeKeys(value: unknown, path: PropertyKey[], keys: string[]): void {
+  let target = value;
+  for (const segment of path) {
+    target = isRecord(target) ? target[String(segment)] : undefined;
+  }
+  if (isRecord(target)) {
+    for (const key of keys) delete target[key];
+  }
+}
+
+/**
+ * The index of the notifier a value path lies in, or null outside the notifiers
+ */
+function notifierIndex(path: PropertyKey[]): number | null {
+  return path[0] === 'notifiers' && typeof path[1] === 'number' ? path[1] : null;
+}
+
+/**
+ * Interpolate environment variables and validate a parsed config. Throws an error listing
+ * every invalid field with its path; unknown keys are ignored and returned as warnings,
+ * with a suggestion when they look like a typo. A notifier that references an unset
+ * variable is skipped with a warning, so a run without one target's secrets still reaches the others.
+ */
+export function validateConfig(raw: unknown, source: string): LoadedConfig {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const unset: UnsetVariable[] = [];
+  const interpolated = interpolateEnv(raw, [], unset);
+  const result = configSchema.safeParse(interpolated);
+  const issues = result.success ? [] : result.error.issues;
+
+  const skippedNotifiers = new Set<number>();
+  for (const { path, name } of unset) {
+    const message = `${formatPath(path)}: environment variable ${name} is not set`;
+    const index = notifierIndex(path);
+    if (index !== null) {
+      skippedNotifiers.add(index);
+      warnings.push(`${message}, notifier skipped`);
+    } else {
+      errors.push(message);
+    }
+  }
+
+  // A value with an unset variable fails the schema too; report only the variable
+  const envErrorPaths = new Set(unset.map(({ path }) => formatPath(path)));
+
+  for (const issue of issues) {
+    const index = notifierIndex(issue.path);
+    if (index !== null && skippedNotifiers.has(index)) continue;
+
+    if (issue.code === 'unrecognized_keys') {
+      const knownKeys = knownKeysAt(issue.path);
+      for (const key of issue.keys) {
+        const suggestion = closestMatch(key, knownKeys);
+        warnings.push(
+          `${formatPath([...issue.path, key])}: unknown key, ignored` +
+          (suggestion ? ` (did you mean "${suggestion}"?)` : '')
+        );
+      }
+    } else if (!envErrorPaths.has(formatPath(issue.path))) {
+      errors.push(`${formatPath(issue.path)}: ${issue.message}`);
+    }
+  }
+
+  // Unknown keys are listed with the errors since a misspelled key is often their cause
+  if (errors.length > 0) {
+    const problems = [...errors, ...warnings];
+    throw new Error(`Invalid configuration in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  if (result.success && skippedNotifiers.size === 0) return { config: result.data, warnings };
+
+  // Only unknown keys and skipped notifiers are left: drop them and validate again
+  for (const issue of issues) {
+    if (issue.code === 'unrecognized_keys') removeKeys(interpolated, issue.path, issue.keys);
+  }
+  if (isRecord(interpolated) && Array.isArray(interpolated.notifiers)) {
+    interpolated.notifiers = interpolated.notifiers.filter((_, index) => !skippedNotifiers.has(index));
+  }
+  return { config: configSchema.parse(interpolated), warnings };
+}
+
+/**
+ * Find the config file to use: the given path, or the first default file that exists
+ */
+export async function findConfigFile(configPath?: string): Promise<string> {
+  if (configPath) return configPath;
+
+  for (const candidate of DEFAULT_CONFIG_FILES) {
+    if (await Bun.file(candidate).exists()) return candidate;
+  }
+  return DEFAULT_CONFIG_FILES[0];
+}
+
+/**
+ * Read and validate a JSON or YAML (.yaml/.yml) config file
+ */
+export async function loadConfig(configPath: string): Promise<LoadedConfig> {
+  const text = await Bun.file(configPath).text();
+
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(configPath) ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Could not parse ${configPath}: ${error.message}`);
+  }
+
+  return validateConfig(raw, configPath);
+}
+
+/**
+ * Check that the configured organizations, repositories and teams exist and are visible with the token.
+ * Missing repositories and teams get a suggestion from the organization's actual names.
+ */
+export async function checkConfigAgainstGitHub(config: Config, octokit: Octokit): Promise<ConfigCheck[]> {
+  const checks: ConfigCheck[] = [];
+
+  for (const { organization, repositories = [], excludeTeams = [] } of getOrganizations(config)) {
+    checks.push(...await checkOrganization(organization, repositories, excludeTeams, octokit));
+  }
+
+  return checks;
+}
+
+async function checkOrganization(org: string, repositories: string[], excludeTeams: string[], octokit: Octokit): Promise<ConfigCheck[]> {
+  const checks: ConfigCheck[] = [];
+  // Names of each owner's repositories and teams, listed for suggestions on the first miss
+  const repositoryNames = new Map<string, string[]>();
+  const teamSlugs = new Map<string, string[]>();
+
+  const check = async (label: string, owner: string, request: () => Promise<unknown>, suggest?: () => Promise<string | null>) => {
+    try {
+      await request();
+      checks.push({ label, ok: true });
+    } catch (error: any) {
+      if (error.status !== 404) {
+        checks.push({ label, ok: false, detail: error.message });
+        return;
+      }
+      const suggestion = suggest ? await suggest().catch(() => null) : null;
+      checks.push({
+        label,
+        ok: false,
+        detail: `not found in ${owner} or not visible with this token` + (suggestion ? ` (did you mean "${suggestion}"?)` : ''),
+      });
+    }
+  };
+
+  await check(`Organization ${org}`, org, () => octokit.orgs.get({ org }));
+
+  // Entries may name another owner as org/repo or org/team, like the analytics accept
+  for (const repo of repositories) {
+    const { owner, name } = splitOwner(repo, org);
+    await check(`Repository ${owner}/${name}`, owner, () => octokit.repos.get({ owner, repo: name }), async () => {
+      if (!repositoryNames.has(owner)) {
+        repositoryNames.set(owner, (await octokit.paginate(octokit.repos.listForOrg, { org: owner, per_page: 100 })).map(entry => entry.name));
+      }
+      return closestMatch(name, repositoryNames.get(owner)!);
+    });
+  }
+
+  for (const team of excludeTeams) {
+    const { owner, name } = splitOwner(team, org);
+    await check(`Team ${owner}/${name}`, owner, () => octokit.teams.getByName({ org: owner, team_slug: name }), async () => {
+      if (!teamSlugs.has(owner)) {
+        teamSlugs.set(owner, (await octokit.paginate(octokit.teams.list, { org: owner, per_page: 100 })).map(entry => entry.slug));
+      }
+      return closestMatch(name, teamSlugs.get(owner)!);
+    });
+  }
+
+  return checks;
+}
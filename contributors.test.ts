@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test';
+import type { ContributorHistory } from './types.ts';
+import { calculateContributorReport, describeContributorRetention } from './contributors.ts';
+import { testItem } from './test-data.ts';
+
+const firstWeek = new Date('2024-01-01T00:00:00Z');
+const secondWeek = new Date('2024-01-08T00:00:00Z');
+
+const items = [
+  testItem({ number: 1, reportedBy: 'alice', createdAt: new Date('2024-01-02T09:00:00Z'), weekStarting: firstWeek }),
+  testItem({ number: 2, reportedBy: 'bob', createdAt: new Date('2024-01-03T09:00:00Z'), weekStarting: firstWeek, responseTimeHours: 30, respondedWithinOneDay: false }),
+  testItem({ number: 3, reportedBy: 'eve', createdAt: new Date('2024-01-04T09:00:00Z'), weekStarting: firstWeek }),
+  testItem({ number: 4, reportedBy: 'carol', createdAt: new Date('2024-01-09T09:00:00Z'), weekStarting: secondWeek, responseTimeHours: null, respondedWithinOneDay: false }),
+  testItem({ number: 5, reportedBy: 'alice', createdAt: new Date('2024-01-10T09:00:00Z'), weekStarting: secondWeek }),
+  testItem({ number: 6, reportedBy: 'dave', createdAt: new Date('2024-01-11T09:00:00Z'), weekStarting: secondWeek, responseTimeHours: 3 }),
+];
+
+const history = (login: string, first: string, second: string | null): ContributorHistory =>
+  ({ login, firstContributionAt: new Date(first), secondContributionAt: second ? new Date(second) : null });
+
+// No history for eve, whose lookup found nothing
+const histories = [
+  history('alice', '2024-01-02T09:00:00Z', '2024-01-10T09:00:00Z'),
+  history('bob', '2023-06-01T09:00:00Z', '2023-07-01T09:00:00Z'),
+  history('carol', '2024-01-09T09:00:00Z', '2024-06-01T09:00:00Z'),
+  history('dave', '2024-01-11T09:00:00Z', '2024-04-10T09:00:00Z'),  // Exactly 90 days later
+];
+
+describe('calculateContributorReport', () => {
+  const report = calculateContributorReport(items, histories);
+
+  test('counts an item opened at the first contribution as a first contribution and later ones as repeats', () => {
+    expect(report.authors).toBe(4);
+    expect(report.firstTimers).toBe(3);
+    expect(report.firstContributions).toEqual({
+      items: 3,
+      respondedWithinOneDay: 2,
+      percentage: (2 / 3) * 100,
+      medianResponseTimeHours: 2,
+      p90ResponseTimeHours: expect.any(Number),
+    });
+    expect(report.repeatContributions).toMatchObject({ items: 2, respondedWithinOneDay: 1, percentage: 50 });
+  });
+
+  test('counts first-timers who came back within the return window, inclusive', () => {
+    expect(report.returnWindowDays).toBe(90);
+    expect(report.returned).toBe(2);
+    expect(calculateContributorReport(items, histories, 89).returned).toBe(1);
+  });
+
+  test('counts authors, first-timers and returns per week', () => {
+    expect(report.weekly).toEqual([
+      { weekStarting: firstWeek, authors: 2, firstTimers: 1, returned: 1 },
+      { weekStarting: secondWeek, authors: 3, firstTimers: 2, returned: 1 },
+    ]);
+  });
+
+  test('leaves out authors without a history', () => {
+    expect(calculateContributorReport(items.filter(item => item.reportedBy === 'eve'), histories)).toMatchObject({
+      authors: 0,
+      firstTimers: 0,
+      weekly: [],
+      firstContributions: { items: 0 },
+      repeatContributions: { items: 0 },
+    });
+  });
+});
+
+describe('describeContributorRetention', () => {
+  test('summarizes first-timers and returns', () => {
+    expect(describeContributorRetention(calculateContributorReport(items, histories)))
+      .toBe('3 of 4 external authors were first-time contributors; 2 (67%) of them returned within 90 days');
+    expect(describeContributorRetention(calculateContributorReport([], histories))).toBe('No external authors in this period');
+  });
+});
@@ -0,0 +1,102 @@
+import type { ContributorGroupStats, ContributorHistory, ContributorReport, IssueData, WeeklyContributors } from './types.ts';
+import { calculateStats } from './utils.ts';
+
+/**
+ * Days after their first contribution within which a first-timer counts as returned
+ */
+export const RETURN_WINDOW_DAYS = 90;
+
+/**
+ * Distinct external authors of the analyzed items, sorted
+ */
+export function listAuthors(data: IssueData[]): string[] {
+  const authors = new Set(data.map(item => item.reportedBy).filter((login): login is string => !!login));
+  return Array.from(authors).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Response times of a group of items
+ */
+function calculateGroupStats(items: IssueData[]): ContributorGroupStats {
+  const respondedWithinOneDay = items.filter(item => item.respondedWithinOneDay).length;
+  const stats = calculateStats(
+    items.filter(item => item.responseTimeHours !== null).map(item => item.responseTimeHours as number)
+  );
+
+  return {
+    items: items.length,
+    respondedWithinOneDay,
+    percentage: items.length > 0 ? (respondedWithinOneDay / items.length) * 100 : 0,
+    medianResponseTimeHours: stats.median,
+    p90ResponseTimeHours: stats.p90,
+  };
+}
+
+/**
+ * Count first-time and returning authors per week and compare the response times of first
+ * contributions with those of repeat contributors. An item is a first contribution when it is
+ * the earliest issue or PR its author opened in the organization.
+ */
+export function calculateContributorReport(
+  data: IssueData[],
+  histories: ContributorHistory[],
+  returnWindowDays: number = RETURN_WINDOW_DAYS
+): ContributorReport {
+  const historyByLogin = new Map(histories.map(history => [history.login, history]));
+  const returnWindowMs = returnWindowDays * 24 * 60 * 60 * 1000;
+
+  const hasReturned = (history: ContributorHistory) =>
+    history.secondContributionAt !== null &&
+    history.secondContributionAt.getTime() - history.firstContributionAt.getTime() <= returnWindowMs;
+
+  // Authors the search found no items for (e.g. not visible to the token) are left out of both groups
+  const known = data.filter(item => item.reportedBy && historyByLogin.has(item.reportedBy));
+  const isFirstContribution = (item: IssueData) =>
+    item.createdAt.getTime() <= historyByLogin.get(item.reportedBy!)!.firstContributionAt.getTime();
+
+  const firstContributions = known.filter(isFirstContribution);
+  const repeatContributions = known.filter(item => !isFirstContribution(item));
+  const firstTimerLogins = new Set(firstContributions.map(item => item.reportedBy!));
+
+  const weekMap = new Map<number, { weekStarting: Date; authors: Set<string>; firstTimers: Set<string> }>();
+  for (const item of known) {
+    const key = item.weekStarting.getTime();
+    if (!weekMap.has(key)) {
+      weekMap.set(key, { weekStarting: item.weekStarting, authors: new Set(), firstTimers: new Set() });
+    }
+
+    const week = weekMap.get(key)!;
+    week.authors.add(item.reportedBy!);
+    if (isFirstContribution(item)) week.firstTimers.add(item.reportedBy!);
+  }
+
+  const weekly: WeeklyContributors[] = Array.from(weekMap.values())
+    .sort((a, b) => a.weekStarting.getTime() - b.weekStarting.getTime())
+    .map(week => ({
+      weekStarting: week.weekStarting,
+      authors: week.authors.size,
+      firstTimers: week.firstTimers.size,
+      returned: Array.from(week.firstTimers).filter(login => hasReturned(historyByLogin.get(login)!)).length,
+    }));
+
+  return {
+    returnWindowDays,
+    authors: new Set(known.map(item => item.reportedBy!)).size,
+    firstTimers: firstTimerLogins.size,
+    returned: Array.from(firstTimerLogins).filter(login => hasReturned(historyByLogin.get(login)!)).length,
+    weekly,
+    firstContributions: calculateGroupStats(firstContributions),
+    repeatContributions: calculateGroupStats(repeatContributions),
+  };
+}
+
+/**
+ * Describe first-timers and retention in one sentence
+ */
+export function describeContributorRetention(report: ContributorReport): string {
+  if (report.authors === 0) return 'No external authors in this period';
+
+  const returnedPct = report.firstTimers > 0 ? (report.returned / report.firstTimers) * 100 : 0;
+  return `${report.firstTimers} of ${report.authors} external authors were first-time contributors; ` +
+    `${report.returned} (${returnedPct.toFixed(0)}%) of them returned within ${report.returnWindowDays} days`;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, test } from 'bun:test';
+import { buildDiscordReportEmbed } from './discord.ts';
+import { testItem, testReport } from './test-data.ts';
+
+// A year of weekly data over many repositories and responders with long names
+const busyReport = testReport(Array.from({ length: 300 }, (_, index) => {
+  const weekStarting = new Date(Date.UTC(2024, 0, 1 + 7 * (index % 52)));
+  return testItem({
+    repository: `repository-with-a-long-name-${index % 60}`,
+    number: index,
+    title: 'A long title that goes on '.repeat(6),
+    respondedBy: `responder-with-a-long-login-${index % 7}`,
+    responseTimeHours: index % 3 ? 1 : null,
+    respondedWithinOneDay: index % 3 !== 0,
+    createdAt: weekStarting,
+    weekStarting,
+  });
+}));
+
+describe('buildDiscordReportEmbed', () => {
+  test('keeps a large report within the embed limits by whole lines', () => {
+    const embed = buildDiscordReportEmbed(busyReport, 'full');
+    const fields = embed.fields ?? [];
+    const total = embed.title.length + (embed.description?.length ?? 0) +
+      fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+
+    expect(total).toBeLessThanOrEqual(6000);
+    expect(embed.description!.length).toBeLessThanOrEqual(4096);
+    expect(embed.description).toMatch(/\n…and \d+ more$/);
+    expect(fields.every(field => field.value.length <= 1024)).toBe(true);
+    expect(fields.find(field => field.name === '📦 By repository')?.value).toMatch(/\nrepository-with-a-long-name-\d+: [\d.]+% of \d+\n…and \d+ more$/);
+  });
+
+  test('counts only the items left out when the cut crosses into the next section', () => {
+    const lines = buildDiscordReportEmbed(busyReport, 'summary').description!.split('\n');
+    const shownWeeks = lines.filter(line => /^\*\*\d{4}-\d{2}-\d{2}\*\*/.test(line)).length;
+
+    expect(lines.some(line => line.startsWith('**⚠️'))).toBe(false);
+    expect(lines[lines.length - 1]).toBe(`…and ${busyReport.weeklySummary.length - shownWeeks + 5} more`);
+  });
+
+  test('lists each repository in the summary template', () => {
+    const report = testReport([
+      testItem({ repository: 'acme/api', number: 1 }),
+      testItem({ repository: 'other/web', number: 2, respondedWithinOneDay: false, responseTimeHours: 30 }),
+    ]);
+
+    expect(buildDiscordReportEmbed(report).fields).toEqual([
+      { name: '📦 By repository', value: 'acme/api: 100.0% of 1\nother/web: 0.0% of 1' },
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import type { BacklogItem, BacklogReport, IssueData, Notifier, NotifierTemplate, ReportData } from './types.ts';
+import { formatDate } from './utils.ts';
+import { DEFAULT_TARGET_PERCENTAGE, findWorstItems, formatHours, formatWeekLine, getOneDayPercentage, getTargetStatus } from './output.ts';
+
+// Embed side colors for the target status
+const STATUS_COLORS = { good: 0x2da44e, warning: 0xd4a72c, bad: 0xcf222e };
+
+// Discord rejects embeds with longer texts than these
+const MAX_DESCRIPTION = 4096;
+const MAX_FIELD_VALUE = 1024;
+const MAX_EMBED_TOTAL = 6000;  // Title, description and all fields together
+
+interface DiscordField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+interface DiscordEmbed {
+  title: string;
+  description?: string;
+  color?: number;
+  fields?: DiscordField[];
+  timestamp?: string;
+}
+
+/**
+ * Count the items among dropped lines: blank lines and bold section headings are not items,
+ * and an earlier "…and N more" line stands for N items
+ */
+function countItemLines(lines: string[]): number {
+  return lines.reduce((count, line) => {
+    const more = line.match(/^…and (\d+) more$/);
+    if (more) {
+      return count + Number(more[1]);
+    }
+    return !line.trim() || /^\*\*[^*]+\*\*$/.test(line) ? count : count + 1;
+  }, 0);
+}
+
+/**
+ * Shorten text to the whole lines that fit in maxLength, ending with an "…and N more" line
+ * for the items left out
+ */
+function truncateLines(text: string, maxLength: number): string {
+  const lines = text.split('\n');
+  let kept = lines.length;
+  let result = text;
+
+  while (result.length > maxLength && kept > 0) {
+    kept--;
+    result = [...lines.slice(0, kept), `…and ${countItemLines(lines.slice(kept))} more`].join('\n');
+  }
+
+  return result;
+}
+
+/**
+ * Keep an embed within Discord's total text limit: trailing fields are dropped first and
+ * replaced by a note, then the description is shortened by whole lines
+ */
+function fitEmbed(embed: DiscordEmbed): DiscordEmbed {
+  const allFields = embed.fields ?? [];
+  const description = embed.description ?? '';
+  const textLength = (fields: DiscordField[]) =>
+    embed.title.length + fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+
+  let fields = allFields;
+  for (let kept = allFields.length - 1; kept >= 0 && textLength(fields) + description.length > MAX_EMBED_TOTAL; kept--) {
+    const omitted = allFields.length - kept;
+    fields = [...allFields.slice(0, kept), { name: 'Not shown', value: `…and ${omitted} more ${omitted === 1 ? 'section' : 'sections'}` }];
+  }
+
+  return {
+    ...embed,
+    ...(embed.description !== undefined && { description: truncateLines(description, MAX_EMBED_TOTAL - textLength(fields)) }),
+    ...(embed.fields && { fields }),
+  };
+}
+
+/**
+ * Escape characters that Discord renders as Markdown
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_~`|[\]])/g, '\\$1');
+}
+
+function itemLink(item: IssueData): string {
+  return `[${item.repository}#${item.number}](<${item.url}>) ${escapeMarkdown(item.title)}`;
+}
+
+/**
+ * Build the report as a Discord embed. The summary template has the headline,
+ * weekly summary, worst-offending items and a per-repository field; the full template
+ * adds issue/PR stats, response times, lifecycle and top responders as fields.
+ */
+export function buildDiscordReportEmbed(
+  report: ReportData,
+  template: NotifierTemplate = 'summary',
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
+): DiscordEmbed {
+  const { metrics } = report;
+  const percentage = getOneDayPercentage(metrics);
+
+  const weekLines = report.weeklySummary.map(week =>
+    `**${formatDate(week.weekStarting, report.timezone)}**  ${formatWeekLine(week, report.trends)}`
+  );
+
+  let description = `${formatDate(report.startDate, report.timezone)} to ${formatDate(report.endDate, report.timezone)} · times in working hours\n\n` +
+    `**${percentage.toFixed(1)}%** of ${metrics.totalIssues + metrics.totalPRs} issues/PRs responded within 1 business day (target ${targetPercentage}%)\n\n` +
+    `**📅 Weekly - responded within 1 business day**\n${weekLines.join('\n')}`;
+
+  const missedCount = report.items.filter(item => !item.respondedWithinOneDay).length;
+  if (missedCount > 0) {
+    const itemLines = findWorstItems(report.items).map(item => {
+      const response = item.responseTimeHours !== null ? `${item.responseTimeHours.toFixed(1)}h` : 'no response';
+      return `• ${itemLink(item)} (${item.type.toUpperCase()}, ${response})`;
+    });
+    description += `\n\n**⚠️ Slowest of ${missedCount} missed items**\n${itemLines.join('\n')}`;
+  }
+
+  const embed: DiscordEmbed = {
+    title: 'GitHub Response Time Analysis',
+    description: truncateLines(description, MAX_DESCRIPTION),
+    color: STATUS_COLORS[getTargetStatus(percentage, targetPercentage)],
+    timestamp: new Date().toISOString(),
+  };
+
+  const fields: DiscordField[] = [];
+
+  if (template === 'full') {
+    const lifecycle = metrics.lifecycle;
+    fields.push(
+      { name: 'Issues', value: `${metrics.totalIssues} total\n${metrics.issuesResponded} responded (${metrics.issueResponseRate.toFixed(1)}%)\n${metrics.issuesWithinOneDay} within 1 day (${metrics.issueOneDayPercentage.toFixed(1)}%)`, inline: true },
+      { name: 'Pull Requests', value: `${metrics.totalPRs} total\n${metrics.prsResponded} responded (${metrics.prResponseRate.toFixed(1)}%)\n${metrics.prsWithinOneDay} within 1 day (${metrics.prOneDayPercentage.toFixed(1)}%)`, inline: true },
+      { name: 'Response time', value: `median ${formatHours(metrics.medianResponseTimeHours)} h\np90 ${formatHours(metrics.p90ResponseTimeHours)} h\np95 ${formatHours(metrics.p95ResponseTimeHours)} h`, inline: true },
+      { name: 'Lifecycle', value: `${lifecycle.open} open · ${lifecycle.closed} closed · ${lifecycle.merged} merged · PR merge rate ${lifecycle.prMergeRate.toFixed(1)}%` },
+    );
+  }
+
+  if (report.repositoryMetrics.length > 0) {
+    fields.push({
+      name: '📦 By repository',
+      value: report.repositoryMetrics.map(({ repository, metrics: repoMetrics }) =>
+        `${escapeMarkdown(repository)}: ${getOneDayPercentage(repoMetrics).toFixed(1)}% of ${repoMetrics.totalIssues + repoMetrics.totalPRs}`
+      ).join('\n'),
+    });
+  }
+
+  if (template === 'full' && report.responderReport.responders.length > 0) {
+    fields.push({
+      name: '👥 Top responders',
+      value: report.responderReport.responders.slice(0, 5).map(responder =>
+        `${escapeMarkdown(responder.login)}: ${responder.firstResponses} (${responder.sharePercentage.toFixed(1)}%)`
+      ).join('\n'),
+    });
+  }
+
+  if (fields.length > 0) {
+    embed.fields = fields.map(field => ({ ...field, value: truncateLines(field.value, MAX_FIELD_VALUE) }));
+  }
+
+  return fitEmbed(embed);
+}
+
+/**
+ * Build the open backlog as a Discord embed
+ */
+export function buildDiscordBacklogEmbed(report: BacklogReport, maxItems: number = 10): DiscordEmbed {
+  const title = `📥 Open Backlog - ${report.items.length} items without an org response`;
+
+  if (report.items.length === 0) {
+    return { title, description: 'Nothing waiting for a response 🎉', color: STATUS_COLORS.good };
+  }
+
+  const itemLines = report.items.slice(0, maxItems)
+    .map(({ item, ageBusinessDays }) => `• ${itemLink(item)} (${ageBusinessDays.toFixed(1)} days)`);
+
+  return {
+    title,
+    description: truncateLines(`**Oldest items**\n${itemLines.join('\n')}`, MAX_DESCRIPTION),
+    color: STATUS_COLORS.warning,
+    fields: [
+      { name: 'Age (business days)', value: report.ageBuckets.map(bucket => `${bucket.label}: ${bucket.items.length}`).join('\n'), inline: true },
+      { name: 'By repository', value: truncateLines(report.repositories.map(repo => `${escapeMarkdown(repo.repository)}: ${repo.count}`).join('\n'), MAX_FIELD_VALUE), inline: true },
+    ],
+  };
+}
+
+/**
+ * Build an SLA alert as a Discord embed, listing at most maxItems items
+ */
+export function buildDiscordSlaAlertEmbed(items: BacklogItem[], slaHours: number, maxItems: number = 20): DiscordEmbed {
+  const lines = items.slice(0, maxItems).map(({ item, ageHours }) =>
+    `• ${itemLink(item)} (${item.type.toUpperCase()}, ${ageHours.toFixed(1)}h old, ${Math.max(0, slaHours - ageHours).toFixed(1)}h left)`
+  );
+  if (items.length > maxItems) {
+    lines.push(`…and ${items.length - maxItems} more`);
+  }
+
+  return {
+    title: `⏰ ${items.length} ${items.length === 1 ? 'item is' : 'items are'} about to miss the ${slaHours}h response target`,
+    description: truncateLines(lines.join('\n'), MAX_DESCRIPTION),
+    color: STATUS_COLORS.warning,
+  };
+}
+
+/**
+ * Post an embed to a Discord webhook
+ */
+export async function postToDiscord(webhookUrl: string, embed: DiscordEmbed): Promise<void> {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ embeds: [embed] }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to post to Discord: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Sends reports and alerts to a Discord channel as embeds via a webhook
+ */
+export class DiscordNotifier implements Notifier {
+  readonly name = 'Discord';
+  private webhookUrl: string;
+  private template: NotifierTemplate;
+  private targetPercentage: number;
+
+  constructor(webhookUrl: string, template: NotifierTemplate = 'summary', targetPercentage: number = DEFAULT_TARGET_PERCENTAGE) {
+    this.webhookUrl = webhookUrl;
+    this.template = template;
+    this.targetPercentage = targetPercentage;
+  }
+
+  async sendReport(report: ReportData): Promise<void> {
+    await postToDiscord(this.webhookUrl, buildDiscordReportEmbed(report, this.template, this.targetPercentage));
+  }
+
+  async sendBacklog(report: BacklogReport): Promise<void> {
+    await postToDiscord(this.webhookUrl, buildDiscordBacklogEmbed(report));
+  }
+
+  async sendSlaAlert(items: BacklogItem[], slaHours: number): Promise<void> {
+    await postToDiscord(this.webhookUrl, buildDiscordSlaAlertEmbed(items, slaHours));
+  }
+}
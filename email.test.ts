@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { BacklogItem } from './types.ts';
+import { buildEmailMessage, buildReportEmail, EmailNotifier } from './email.ts';
+import { startSmtpServer, type ScriptedSmtpServer } from './smtp-test-server.ts';
+import { testItem, testReport } from './test-data.ts';
+
+const sample = testReport([
+  testItem({ number: 1 }),
+  testItem({
+    number: 2,
+    title: 'Docs <typo>',
+    url: 'https://github.com/acme/api/issues/2',
+    firstResponseAt: null,
+    responseTimeHours: null,
+    respondedBy: null,
+    responseEvent: null,
+    respondedWithinOneDay: false,
+  }),
+  testItem({ number: 3, createdAt: new Date('2024-01-08T09:00:00Z'), weekStarting: new Date('2024-01-08T00:00:00Z') }),
+]);
+
+/**
+ * Decode the base64 body of the MIME part with the given content type
+ */
+function decodePart(message: string, contentType: string): string {
+  const start = message.indexOf(`Content-Type: ${contentType}`);
+  const body = message.slice(start).split('\r\n\r\n')[1].split('\r\n--')[0];
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString();
+}
+
+describe('buildEmailMessage', () => {
+  test('has text and HTML alternatives and attachments', () => {
+    const message = buildEmailMessage('reports@example.com', ['a@example.com', 'b@example.com'], {
+      subject: 'Weekly report',
+      text: 'plain',
+      html: '<p>html</p>',
+      attachments: [{ filename: 'missed.csv', contentType: 'text/csv', content: 'a,b\n1,2' }],
+    });
+
+    expect(message).toContain('From: reports@example.com\r\nTo: a@example.com, b@example.com\r\nSubject: Weekly report\r\n');
+    expect(message).toContain('Content-Type: multipart/mixed');
+    expect(message).toContain('Content-Disposition: attachment; filename="missed.csv"');
+    expect(decodePart(message, 'text/plain')).toBe('plain');
+    expect(decodePart(message, 'text/html')).toBe('<p>html</p>');
+    expect(decodePart(message, 'text/csv')).toBe('a,b\r\n1,2');
+  });
+
+  test('encodes a non-ASCII subject', () => {
+    const message = buildEmailMessage('reports@example.com', ['a@example.com'], {
+      subject: '⏰ Alert',
+      text: '',
+      html: '',
+      attachments: [],
+    });
+
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('⏰ Alert').toString('base64')}?=`);
+    expect(message).not.toContain('multipart/mixed');
+  });
+});
+
+describe('buildReportEmail', () => {
+  test('renders the summary template as HTML tables', () => {
+    const email = buildReportEmail(sample, 'summary', 80);
+
+    expect(email.subject).toBe('GitHub Response Time Analysis 2024-01-01 to 2024-01-14: 66.7% within 1 business day');
+    expect(email.html).not.toContain('<pre');
+    expect(email.html).toContain('<td style="border: 1px solid #d0d7de; padding: 4px 8px; text-align: left;">2024-01-08</td>');
+    expect(email.html).toContain('<a href="https://github.com/acme/api/issues/2">api#2</a> Docs &lt;typo&gt;');
+    expect(email.html).not.toContain('Top responders');
+    expect(email.text).toContain('Slowest of 1 missed items');
+    expect(email.attachments.map(attachment => attachment.filename)).toEqual(['missed-response-times.csv']);
+  });
+
+  test('adds the overall stats, repositories and responders to the full template', () => {
+    const email = buildReportEmail(sample, 'full', 80);
+
+    expect(email.html).toContain('<h3>Overall</h3>');
+    expect(email.html).toContain('<h3>By repository</h3>');
+    expect(email.html).toContain('<h3>Top responders</h3>');
+    expect(email.text).toContain('='.repeat(80));
+  });
+});
+
+describe('EmailNotifier', () => {
+  let server: ScriptedSmtpServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  test('sends an SLA alert through the SMTP server', async () => {
+    server = await startSmtpServer();
+    const notifier = new EmailNotifier({ host: server.host, port: server.port }, 'reports@example.com', ['leads@example.com']);
+    const alert: BacklogItem[] = [{ item: testItem({ number: 7, url: 'https://github.com/acme/api/issues/7' }), ageHours: 6, ageBusinessDays: 0.75 }];
+
+    await notifier.sendSlaAlert(alert, 8);
+
+    expect(server.commands).toContain('RCPT TO:<leads@example.com>');
+    expect(server.messages).toHaveLength(1);
+    expect(decodePart(server.messages[0], 'text/plain')).toContain('api#7 (ISSUE, 6.0h old, 2.0h left) Crash on start');
+    expect(decodePart(server.messages[0], 'text/html')).toContain('<a href="https://github.com/acme/api/issues/7">api#7</a>');
+  });
+});
@@ -0,0 +1,356 @@
+import type { BacklogItem, BacklogReport, IssueData, Notifier, NotifierTemplate, ReportData, SmtpConfig } from './types.ts';
+import { formatDate } from './utils.ts';
+import {
+  DEFAULT_TARGET_PERCENTAGE,
+  findWorstItems,
+  formatBacklogReport,
+  formatConsoleOutput,
+  formatDelta,
+  formatHours,
+  formatWeekLine,
+  generateBacklogCSV,
+  generateCSV,
+  getOneDayPercentage,
+  getTargetStatus,
+} from './output.ts';
+import { escapeHtml } from './html.ts';
+import { sendMail } from './smtp.ts';
+import { TRAILING_WEEKS } from './history.ts';
+
+// Headline colors for the target status
+const STATUS_COLORS = { good: '#1a7f37', warning: '#9a6700', bad: '#cf222e' };
+
+interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded-words when it isn't plain ASCII,
+ * in chunks short enough to keep each word within the 75 character limit
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  const characters = Array.from(value);
+  const words: string[] = [];
+  for (let i = 0; i < characters.length; i += 10) {
+    words.push(`=?UTF-8?B?${Buffer.from(characters.slice(i, i + 10).join('')).toString('base64')}?=`);
+  }
+  return words.join('\r\n ');
+}
+
+/**
+ * Base64-encode content with CRLF line endings, wrapped at 76 characters
+ */
+function base64Body(content: string): string {
+  const encoded = Buffer.from(content.replace(/\r?\n/g, '\r\n')).toString('base64');
+  return encoded.match(/.{1,76}/g)?.join('\r\n') || '';
+}
+
+function mimePart(contentType: string, content: string, headers: string[] = []): string {
+  return [
+    `Content-Type: ${contentType}`,
+    'Content-Transfer-Encoding: base64',
+    ...headers,
+    '',
+    base64Body(content),
+  ].join('\r\n');
+}
+
+function multipart(subtype: string, boundary: string, parts: string[]): string {
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Build a MIME message with plain text and HTML alternatives and optional attachments
+ */
+export function buildEmailMessage(from: string, to: string[], content: EmailContent): string {
+  const boundary = (name: string) => `=_${name}_${crypto.randomUUID()}`;
+  const domain = from.split('@')[1] || 'localhost';
+
+  let body = multipart('alternative', boundary('alt'), [
+    mimePart('text/plain; charset=utf-8', content.text),
+    mimePart('text/html; charset=utf-8', content.html),
+  ]);
+
+  if (content.attachments.length > 0) {
+    body = multipart('mixed', boundary('mixed'), [
+      body,
+      ...content.attachments.map(attachment => mimePart(
+        `${attachment.contentType}; charset=utf-8; name="${attachment.filename}"`,
+        attachment.content,
+        [`Content-Disposition: attachment; filename="${attachment.filename}"`]
+      )),
+    ]);
+  }
+
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(content.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    body,
+  ].join('\r\n');
+}
+
+const CELL_STYLE = 'border: 1px solid #d0d7de; padding: 4px 8px; text-align: left;';
+
+/**
+ * An HTML email body with a title and optional colored headline. Styles are inline since
+ * many mail clients drop style sheets.
+ */
+function htmlDocument(title: string, headline: string, sections: string[], headlineColor?: string): string {
+  const headlineStyle = headlineColor ? ` style="color: ${headlineColor}; font-weight: 600;"` : '';
+
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2328;">
+<h2>${escapeHtml(title)}</h2>
+<p${headlineStyle}>${escapeHtml(headline)}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * A section heading followed by a table. Cells are HTML, so text in them must be escaped already.
+ */
+function htmlTable(heading: string, headers: string[], rows: string[][]): string {
+  const headerCells = headers.map(header => `<th style="${CELL_STYLE} background: #f6f8fa;">${escapeHtml(header)}</th>`).join('');
+  const bodyRows = rows.map(row => `<tr>${row.map(cell => `<td style="${CELL_STYLE}">${cell}</td>`).join('')}</tr>`);
+
+  return `<h3>${escapeHtml(heading)}</h3>
+<table style="border-collapse: collapse; font-size: 14px;">
+<tr>${headerCells}</tr>
+${bodyRows.join('\n')}
+</table>`;
+}
+
+function itemLink(item: IssueData): string {
+  return `<a href="${escapeHtml(item.url)}">${escapeHtml(`${item.repository}#${item.number}`)}</a> ${escapeHtml(item.title)}`;
+}
+
+function describeResponse(item: IssueData): string {
+  return item.responseTimeHours !== null ? `${item.responseTimeHours.toFixed(1)}h` : 'no response';
+}
+
+/**
+ * Weekly percentage within one business day, median and change against the previous week and the trailing average
+ */
+function weeklyRows(report: ReportData): string[][] {
+  return report.weeklySummary.map(week => {
+    const trend = report.trends.find(entry => entry.weekStarting.getTime() === week.weekStarting.getTime());
+    return [
+      formatDate(week.weekStarting, report.timezone),
+      `${week.percentage.toFixed(1)}% (${week.respondedWithinOneDay}/${week.totalIssues})`,
+      `${formatHours(week.responseTimes.median)} h`,
+      formatDelta(trend?.withinOneDayPercentage.previousDelta ?? null, 'pp'),
+      formatDelta(trend?.withinOneDayPercentage.trailingAverageDelta ?? null, 'pp'),
+    ];
+  });
+}
+
+/**
+ * Build the report email, with the items not responded to within one business day as a CSV attachment.
+ * The summary template has the headline, weekly summary and worst-offending items; the full template
+ * adds issue/PR stats, lifecycle, the per-repository breakdown and top responders, and uses the
+ * console report as its plain text part.
+ */
+export function buildReportEmail(
+  report: ReportData,
+  template: NotifierTemplate = 'summary',
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
+): EmailContent {
+  const { metrics } = report;
+  const percentage = getOneDayPercentage(metrics);
+  const dateRange = `${formatDate(report.startDate, report.timezone)} to ${formatDate(report.endDate, report.timezone)}`;
+  const headline = `${percentage.toFixed(1)}% of ${metrics.totalIssues + metrics.totalPRs} issues/PRs responded within 1 business day (target ${targetPercentage}%)`;
+
+  const missedItems = report.items.filter(item => !item.respondedWithinOneDay);
+  const worstItems = findWorstItems(report.items);
+  const sections: string[] = [];
+
+  if (template === 'full') {
+    const lifecycle = metrics.lifecycle;
+    sections.push(htmlTable('Overall', ['', 'Total', 'Responded', 'Within 1 day', 'Median', 'P90'], [
+      ['Issues', `${metrics.totalIssues}`, `${metrics.issuesResponded} (${metrics.issueResponseRate.toFixed(1)}%)`,
+        `${metrics.issuesWithinOneDay} (${metrics.issueOneDayPercentage.toFixed(1)}%)`,
+        `${formatHours(metrics.issueResponseTimes.median)} h`, `${formatHours(metrics.issueResponseTimes.p90)} h`],
+      ['Pull Requests', `${metrics.totalPRs}`, `${metrics.prsResponded} (${metrics.prResponseRate.toFixed(1)}%)`,
+        `${metrics.prsWithinOneDay} (${metrics.prOneDayPercentage.toFixed(1)}%)`,
+        `${formatHours(metrics.prResponseTimes.median)} h`, `${formatHours(metrics.prResponseTimes.p90)} h`],
+    ]));
+    sections.push(`<p>Lifecycle: ${lifecycle.open} open · ${lifecycle.closed} closed · ${lifecycle.merged} merged · PR merge rate ${lifecycle.prMergeRate.toFixed(1)}%</p>`);
+  }
+
+  sections.push(htmlTable(
+    'Weekly - responded within 1 business day',
+    ['Week', 'Within 1 day', 'Median', 'vs prev', `vs ${TRAILING_WEEKS}w avg`],
+    weeklyRows(report)
+  ));
+
+  if (template === 'full' && report.repositoryMetrics.length > 0) {
+    sections.push(htmlTable('By repository', ['Repository', 'Items', 'Within 1 day', 'Median'],
+      report.repositoryMetrics.map(({ repository, metrics: repoMetrics }) => [
+        escapeHtml(repository),
+        `${repoMetrics.totalIssues + repoMetrics.totalPRs}`,
+        `${getOneDayPercentage(repoMetrics).toFixed(1)}%`,
+        `${formatHours(repoMetrics.medianResponseTimeHours)} h`,
+      ])
+    ));
+  }
+
+  if (template === 'full' && report.responderReport.responders.length > 0) {
+    sections.push(htmlTable('Top responders', ['Responder', 'First responses', 'Share'],
+      report.responderReport.responders.slice(0, 5).map(responder => [
+        escapeHtml(responder.login),
+        `${responder.firstResponses}`,
+        `${responder.sharePercentage.toFixed(1)}%`,
+      ])
+    ));
+  }
+
+  if (missedItems.length > 0) {
+    sections.push(htmlTable(`Slowest of ${missedItems.length} missed items`, ['Item', 'Type', 'Response'],
+      worstItems.map(item => [itemLink(item), item.type.toUpperCase(), describeResponse(item)])
+    ));
+  }
+
+  const text = template === 'full'
+    ? formatConsoleOutput(
+      metrics, report.weeklySummary, report.startDate, report.endDate, report.repositoryMetrics, report.trends, report.labelGroupMetrics, report.timezone
+    ).join('\n').trim()
+    : [
+      'Weekly - responded within 1 business day',
+      ...report.weeklySummary.map(week => `  ${formatDate(week.weekStarting, report.timezone)}: ${formatWeekLine(week, report.trends)}`),
+      ...(missedItems.length > 0 ? ['', `Slowest of ${missedItems.length} missed items`] : []),
+      ...worstItems.map(item =>
+        `  ${item.repository}#${item.number} (${item.type.toUpperCase()}, ${describeResponse(item)}) ${item.title}\n    ${item.url}`
+      ),
+    ].join('\n');
+
+  return {
+    subject: `GitHub Response Time Analysis ${dateRange}: ${percentage.toFixed(1)}% within 1 business day`,
+    text: `${headline}\n\n${text}\n`,
+    html: htmlDocument(
+      `GitHub Response Time Analysis (${dateRange})`,
+      headline,
+      sections,
+      STATUS_COLORS[getTargetStatus(percentage, targetPercentage)]
+    ),
+    attachments: missedItems.length > 0
+      ? [{ filename: 'missed-response-times.csv', contentType: 'text/csv', content: generateCSV(missedItems, report.timezone) }]
+      : [],
+  };
+}
+
+/**
+ * Build the open backlog email with the backlog CSV attached
+ */
+export function buildBacklogEmail(report: BacklogReport): EmailContent {
+  const title = `Open Backlog - ${report.items.length} items without an org response`;
+  const text = formatBacklogReport(report).join('\n').trim();
+
+  const sections = report.items.length === 0 ? [] : [
+    htmlTable('Age (business days)', ['Age', 'Items'], report.ageBuckets.map(bucket => [escapeHtml(bucket.label), `${bucket.items.length}`])),
+    htmlTable('By repository', ['Repository', 'Items'], report.repositories.map(repo => [escapeHtml(repo.repository), `${repo.count}`])),
+    htmlTable('Items, oldest first', ['Item', 'Type', 'Age (business days)'], report.items.map(({ item, ageBusinessDays }) =>
+      [itemLink(item), item.type.toUpperCase(), ageBusinessDays.toFixed(1)]
+    )),
+  ];
+
+  return {
+    subject: title,
+    text: `${text}\n`,
+    html: htmlDocument(title, `Generated ${report.generatedAt.toISOString()}`, sections),
+    attachments: report.items.length > 0
+      ? [{ filename: 'backlog.csv', contentType: 'text/csv', content: generateBacklogCSV(report) }]
+      : [],
+  };
+}
+
+/**
+ * Build an SLA alert email listing items that are about to miss the response target
+ */
+export function buildSlaAlertEmail(items: BacklogItem[], slaHours: number): EmailContent {
+  const title = `⏰ ${items.length} ${items.length === 1 ? 'item is' : 'items are'} about to miss the ${slaHours}h response target`;
+  const text = items.map(({ item, ageHours }) =>
+    `${item.repository}#${item.number} (${item.type.toUpperCase()}, ${ageHours.toFixed(1)}h old, ` +
+    `${Math.max(0, slaHours - ageHours).toFixed(1)}h left) ${item.title}\n  ${item.url}`
+  ).join('\n');
+
+  const table = htmlTable('Items', ['Item', 'Type', 'Age', 'Left'], items.map(({ item, ageHours }) =>
+    [itemLink(item), item.type.toUpperCase(), `${formatHours(ageHours)} h`, `${formatHours(Math.max(0, slaHours - ageHours))} h`]
+  ));
+
+  return {
+    subject: title,
+    text: `${title}\n\n${text}\n`,
+    html: htmlDocument(title, 'Respond to these before they miss the target:', [table], STATUS_COLORS.warning),
+    attachments: [],
+  };
+}
+
+/**
+ * Sends reports and alerts by email through an SMTP server
+ */
+export class EmailNotifier implements Notifier {
+  readonly name: string;
+  private smtp: SmtpConfig;
+  private from: string;
+  private to: string[];
+  private template: NotifierTemplate;
+  private targetPercentage: number;
+
+  constructor(
+    smtp: SmtpConfig,
+    from: string,
+    to: string[],
+    template: NotifierTemplate = 'summary',
+    targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
+  ) {
+    if (!smtp.host) throw new Error('Email notifier needs smtp.host');
+    if (!from) throw new Error('Email notifier needs a from address');
+    if (to.length === 0) throw new Error('Email notifier needs at least one recipient in to');
+
+    this.name = `email (${to.join(', ')})`;
+    this.smtp = smtp;
+    this.from = from;
+    this.to = to;
+    this.template = template;
+    this.targetPercentage = targetPercentage;
+  }
+
+  private async send(content: EmailContent): Promise<void> {
+    await sendMail(this.smtp, this.from, this.to, buildEmailMessage(this.from, this.to, content));
+  }
+
+  async sendReport(report: ReportData): Promise<void> {
+    await this.send(buildReportEmail(report, this.template, this.targetPercentage));
+  }
+
+  async sendBacklog(report: BacklogReport): Promise<void> {
+    await this.send(buildBacklogEmail(report));
+  }
+
+  async sendSlaAlert(items: BacklogItem[], slaHours: number): Promise<void> {
+    await this.send(buildSlaAlertEmail(items, slaHours));
+  }
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import type { ExclusionReason, ExclusionRules } from './types.ts';
+import {
+  ExclusionLog,
+  findExclusionReason,
+  getClockEvent,
+  resolveExclusionRules,
+  summarizeExclusions,
+  type ExclusionCandidate,
+} from './exclusions.ts';
+import { findClockStart, type GraphQLItem } from './graphql.ts';
+import { formatExclusionSummary } from './output.ts';
+
+const allRules = resolveExclusionRules({ draftPullRequests: 'skip', locked: true, transferredIssues: true, spam: true });
+
+const candidate = (fields: Partial<ExclusionCandidate> = {}): ExclusionCandidate =>
+  ({ type: 'issue', author: 'alice', state: 'open', labels: [], locked: false, draft: false, ...fields });
+
+const reasonWith = (fields: Partial<ExclusionCandidate>, rules: ExclusionRules = {}) =>
+  findExclusionReason(candidate(fields), resolveExclusionRules(rules));
+
+describe('findExclusionReason', () => {
+  test('keeps everything but author-closed issues by default', () => {
+    expect(resolveExclusionRules()).toEqual({
+      authorClosed: true,
+      draftPullRequests: 'count',
+      locked: false,
+      transferredIssues: false,
+      spam: false,
+      spamLabels: ['spam'],
+    });
+    expect(reasonWith({ type: 'pr', draft: true })).toBeNull();
+    expect(reasonWith({ locked: true })).toBeNull();
+    expect(reasonWith({ state: 'closed', labels: ['spam'] })).toBeNull();
+    expect(reasonWith({ author: null })).toBeNull();
+  });
+
+  test('leaves out draft PRs when skipped or measured from ready for review', () => {
+    expect(reasonWith({ type: 'pr', draft: true }, { draftPullRequests: 'skip' })).toBe('draft');
+    expect(reasonWith({ type: 'pr', draft: true }, { draftPullRequests: 'ready-for-review' })).toBe('draft');
+    expect(reasonWith({ type: 'pr', draft: false }, { draftPullRequests: 'skip' })).toBeNull();
+  });
+
+  test('leaves out locked items', () => {
+    expect(reasonWith({ locked: true }, { locked: true })).toBe('locked');
+    expect(reasonWith({ type: 'pr', locked: true }, { locked: true })).toBe('locked');
+  });
+
+  test('leaves out closed items with a spam label, in any case', () => {
+    expect(reasonWith({ state: 'closed', labels: ['Spam'] }, { spam: true })).toBe('spam');
+    expect(reasonWith({ state: 'closed', labels: ['invalid'] }, { spam: true, spamLabels: ['spam', 'invalid'] })).toBe('spam');
+    expect(reasonWith({ state: 'open', labels: ['spam'] }, { spam: true })).toBeNull();
+    expect(reasonWith({ state: 'closed', labels: ['bug'] }, { spam: true })).toBeNull();
+  });
+
+  test('leaves out items of deleted accounts with the spam rule', () => {
+    expect(reasonWith({ author: null }, { spam: true })).toBe('deleted-user');
+    expect(reasonWith({ author: 'ghost' }, { spam: true })).toBe('deleted-user');
+  });
+
+  test('gives the first matching rule when several match', () => {
+    const draft: Partial<ExclusionCandidate> = { type: 'pr', draft: true };
+    const locked: Partial<ExclusionCandidate> = { locked: true };
+    const spam: Partial<ExclusionCandidate> = { state: 'closed', labels: ['spam'] };
+    const cases: Array<[Partial<ExclusionCandidate>, ExclusionReason]> = [
+      [{ ...draft, ...locked, ...spam, author: 'ghost' }, 'deleted-user'],
+      [{ ...draft, ...locked, ...spam }, 'spam'],
+      [{ ...draft, ...locked }, 'locked'],
+      [draft, 'draft'],
+    ];
+
+    for (const [fields, reason] of cases) {
+      expect(findExclusionReason(candidate(fields), allRules)).toBe(reason);
+    }
+  });
+});
+
+describe('getClockEvent', () => {
+  test('measures transferred issues from the transfer and ready PRs from ready for review', () => {
+    const rules = resolveExclusionRules({ draftPullRequests: 'ready-for-review', transferredIssues: true });
+
+    expect(getClockEvent('issue', rules)).toBe('transferred');
+    expect(getClockEvent('pr', rules)).toBe('ready_for_review');
+    expect(getClockEvent('issue', resolveExclusionRules())).toBeUndefined();
+    expect(getClockEvent('pr', allRules)).toBeUndefined();
+  });
+
+  test('starts the clock at the first transfer of a GraphQL item', () => {
+    // Only the connections read here are filled in
+    const item = {
+      transferred: { nodes: [{ createdAt: '2024-01-03T10:00:00Z' }, { createdAt: '2024-01-05T10:00:00Z' }] },
+      readyForReview: { nodes: [] },
+    } as unknown as GraphQLItem;
+
+    expect(findClockStart(item, 'transferred')).toEqual(new Date('2024-01-03T10:00:00Z'));
+    expect(findClockStart(item, 'ready_for_review')).toBeNull();
+    expect(findClockStart(item)).toBeNull();
+  });
+});
+
+describe('summarizeExclusions', () => {
+  beforeEach(() => {
+    spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  test('counts the logged items per reason in summary order', () => {
+    const log = new ExclusionLog();
+    const reasons: ExclusionReason[] = ['filtered', 'spam', 'author-closed', 'draft', 'author-closed', 'filtered', 'author-closed'];
+    reasons.forEach((reason, index) =>
+      log.record({ repository: 'api', number: index + 1, url: `https://github.com/acme/api/issues/${index + 1}` }, reason));
+
+    const summary = summarizeExclusions(log.getItems());
+
+    expect(summary).toEqual([
+      { reason: 'author-closed', count: 3 },
+      { reason: 'draft', count: 1 },
+      { reason: 'spam', count: 1 },
+      { reason: 'filtered', count: 2 },
+    ]);
+    expect(formatExclusionSummary(summary)).toEqual([
+      '🚫 7 items excluded:',
+      '      3  closed by the author without a response',
+      '      1  draft pull request',
+      '      1  closed as spam',
+      '      2  left out by label/title filters',
+    ]);
+    expect(console.log).toHaveBeenCalledWith('  ⊘ api#2 excluded: closed as spam');
+  });
+
+  test('is empty without excluded items', () => {
+    expect(summarizeExclusions([])).toEqual([]);
+    expect(formatExclusionSummary([])).toEqual(['✓ No items excluded by the exclusion rules or filters']);
+  });
+});
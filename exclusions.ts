@@ -0,0 +1,113 @@
+import type { ExcludedItem, ExclusionCount, ExclusionReason, ExclusionRules } from './types.ts';
+import { hasAnyLabel } from './labels.ts';
+
+/**
+ * Human-readable description of each exclusion reason, in summary order
+ */
+export const EXCLUSION_REASONS: Record<ExclusionReason, string> = {
+  'author-closed': 'closed by the author without a response',
+  'draft': 'draft pull request',
+  'locked': 'locked',
+  'spam': 'closed as spam',
+  'deleted-user': 'author account deleted',
+  'filtered': 'left out by label/title filters',
+};
+
+// Login GitHub shows for items whose author deleted their account
+const DELETED_USER_LOGIN = 'ghost';
+
+/**
+ * Timeline event that starts the response clock instead of creation
+ */
+export type ClockEvent = 'ready_for_review' | 'transferred';
+
+/**
+ * The fields of a search result that the exclusion rules look at
+ */
+export interface ExclusionCandidate {
+  type: 'issue' | 'pr';
+  author: string | null;
+  state: 'open' | 'closed';
+  labels: string[];
+  locked: boolean;
+  draft: boolean;
+}
+
+/**
+ * Fill in the defaults of the configured exclusion rules
+ */
+export function resolveExclusionRules(rules: ExclusionRules = {}): Required<ExclusionRules> {
+  return {
+    authorClosed: rules.authorClosed ?? true,
+    draftPullRequests: rules.draftPullRequests ?? 'count',
+    locked: rules.locked ?? false,
+    transferredIssues: rules.transferredIssues ?? false,
+    spam: rules.spam ?? false,
+    spamLabels: rules.spamLabels ?? ['spam'],
+  };
+}
+
+/**
+ * Check the rules that only need the search result, before any per-item API call.
+ * Draft PRs are left out in both skip and ready-for-review mode: the clock of a draft hasn't started yet.
+ */
+export function findExclusionReason(item: ExclusionCandidate, rules: Required<ExclusionRules>): ExclusionReason | null {
+  if (rules.spam && (!item.author || item.author === DELETED_USER_LOGIN)) return 'deleted-user';
+  if (rules.spam && item.state === 'closed' && hasAnyLabel(item.labels, rules.spamLabels)) return 'spam';
+  if (rules.locked && item.locked) return 'locked';
+  if (item.type === 'pr' && item.draft && rules.draftPullRequests !== 'count') return 'draft';
+  return null;
+}
+
+/**
+ * The timeline event that starts the response clock for an item type, if any rule moves it
+ */
+export function getClockEvent(type: 'issue' | 'pr', rules: Required<ExclusionRules>): ClockEvent | undefined {
+  if (type === 'pr' && rules.draftPullRequests === 'ready-for-review') return 'ready_for_review';
+  if (type === 'issue' && rules.transferredIssues) return 'transferred';
+  return undefined;
+}
+
+/**
+ * Describe the active rules in one line for the startup log
+ */
+export function describeExclusionRules(rules: Required<ExclusionRules>): string {
+  const parts: string[] = [];
+  if (rules.authorClosed) parts.push('author-closed issues');
+  if (rules.draftPullRequests === 'skip') parts.push('draft PRs');
+  if (rules.draftPullRequests === 'ready-for-review') parts.push('draft PRs (others measured from ready for review)');
+  if (rules.locked) parts.push('locked items');
+  if (rules.spam) parts.push(`spam (${rules.spamLabels.join(', ')}) and deleted users`);
+  if (rules.transferredIssues) parts.push('transferred issues measured from the transfer');
+
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+/**
+ * Records the items left out of a run, logging each with its reason
+ */
+export class ExclusionLog {
+  private items: ExcludedItem[];
+
+  constructor() {
+    this.items = [];
+  }
+
+  record(item: Omit<ExcludedItem, 'reason'>, reason: ExclusionReason): void {
+    this.items.push({ ...item, reason });
+    console.log(`  ⊘ ${item.repository}#${item.number} excluded: ${EXCLUSION_REASONS[reason]}`);
+  }
+
+  getItems(): ExcludedItem[] {
+    return [...this.items];
+  }
+}
+
+/**
+ * Count excluded items per reason, in the order of EXCLUSION_REASONS
+ */
+export function summarizeExclusions(items: ExcludedItem[]): ExclusionCount[] {
+  return (Object.keys(EXCLUSION_REASONS) as ExclusionReason[])
+    .map(reason => ({ reason, count: items.filter(item => item.reason === reason).length }))
+    .filter(({ count }) => count > 0);
+}
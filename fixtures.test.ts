@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Octokit } from '@octokit/rest';
+import { createReplayOctokit, enableRecording } from './fixtures.ts';
+
+let fixtureDir: string;
+
+beforeEach(async () => {
+  fixtureDir = await mkdtemp(join(tmpdir(), 'fixtures-'));
+});
+
+afterEach(async () => {
+  await rm(fixtureDir, { recursive: true, force: true });
+});
+
+/**
+ * A client whose requests are answered by the stub instead of the network, recording every outcome
+ */
+function recordingOctokit(respond: (url: URL) => unknown): Octokit {
+  const octokit = new Octokit();
+
+  octokit.hook.wrap('request', async (_request, options) => {
+    const { url } = octokit.request.endpoint.parse(options);
+    return { status: 200, url, headers: { etag: '"abc"' }, data: respond(new URL(url)) };
+  });
+  enableRecording(octokit, fixtureDir);
+
+  return octokit;
+}
+
+const notFound = () => Object.assign(new Error('Not Found'), { status: 404 });
+
+describe('enableRecording and createReplayOctokit', () => {
+  test('replays a recorded response as it was received', async () => {
+    const recorded = await recordingOctokit(url => [{ number: 1, state: url.searchParams.get('state') }])
+      .issues.listForRepo({ owner: 'acme', repo: 'api', state: 'open' });
+
+    const replayed = await createReplayOctokit(fixtureDir).issues.listForRepo({ owner: 'acme', repo: 'api', state: 'open' });
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed.data as unknown[]).toEqual([{ number: 1, state: 'open' }]);
+  });
+
+  test('replays a recorded error with its status', async () => {
+    const octokit = recordingOctokit(() => { throw notFound(); });
+    await expect(octokit.teams.getByName({ org: 'acme', team_slug: 'gone' })).rejects.toThrow('Not Found');
+
+    const replay = createReplayOctokit(fixtureDir).teams.getByName({ org: 'acme', team_slug: 'gone' });
+
+    await expect(replay).rejects.toMatchObject({ status: 404, message: 'Not Found' });
+  });
+
+  test('does not record rate limit errors', async () => {
+    const octokit = recordingOctokit(() => { throw Object.assign(new Error('API rate limit exceeded'), { status: 403 }); });
+    await expect(octokit.orgs.listMembers({ org: 'acme' })).rejects.toThrow('rate limit');
+
+    expect(await readdir(fixtureDir)).toEqual([]);
+  });
+
+  test('fails on a request that was not recorded', async () => {
+    await recordingOctokit(() => []).issues.listForRepo({ owner: 'acme', repo: 'api', state: 'open' });
+
+    const replay = createReplayOctokit(fixtureDir).issues.listForRepo({ owner: 'acme', repo: 'api', state: 'closed' });
+
+    await expect(replay).rejects.toThrow('No recorded response for GET https://api.github.com/repos/acme/api/issues?state=closed');
+  });
+});
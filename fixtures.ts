@@ -0,0 +1,128 @@
+import { Octokit } from '@octokit/rest';
+import type { EndpointDefaults, OctokitResponse } from '@octokit/types';
+import type { Config, DataSource } from './types.ts';
+import { GitHubAnalytics, type GitHubAnalyticsOptions } from './github.ts';
+import { createOctokit, hasStatus } from './scheduler.ts';
+
+/**
+ * The request a fixture was recorded for
+ */
+interface FixtureRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+/**
+ * A recorded API response (or error) as stored in the fixture directory
+ */
+type Fixture =
+  | { request: FixtureRequest; response: OctokitResponse<unknown> }
+  | { request: FixtureRequest; error: { status: number; message: string } };
+
+/**
+ * Describe a request as a stable key (method, full URL including query, and body)
+ */
+function requestKey(octokit: Octokit, options: EndpointDefaults): FixtureRequest {
+  const { method, url, body } = octokit.request.endpoint.parse(options);
+  return { method, url, ...(body !== undefined && { body }) };
+}
+
+function fixturePath(fixtureDir: string, request: FixtureRequest): string {
+  const hash = new Bun.CryptoHasher('sha256')
+    .update(JSON.stringify(request))
+    .digest('hex')
+    .slice(0, 32);
+  return `${fixtureDir}/${hash}.json`;
+}
+
+/**
+ * Save every raw API response made through the client to the fixture directory
+ */
+export function enableRecording(octokit: Octokit, fixtureDir: string): void {
+  octokit.hook.wrap('request', async (request, options) => {
+    const key = requestKey(octokit, options);
+
+    try {
+      const response = await request(options);
+      const fixture: Fixture = {
+        request: key,
+        response: {
+          status: response.status,
+          url: response.url,
+          headers: response.headers,
+          data: response.data,
+        },
+      };
+      await Bun.write(fixturePath(fixtureDir, key), JSON.stringify(fixture, null, 2));
+      return response;
+    } catch (error) {
+      // Record failures too (e.g. a missing team) so replay takes the same code path.
+      // Rate limit errors are not part of the data and are not recorded.
+      if (hasStatus(error) && !error.message.includes('rate limit')) {
+        const fixture: Fixture = {
+          request: key,
+          error: { status: error.status, message: error.message },
+        };
+        await Bun.write(fixturePath(fixtureDir, key), JSON.stringify(fixture, null, 2));
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Create a live GitHub data source that records every API response to the fixture directory.
+ * The response cache is disabled so that every request is recorded.
+ */
+export function createRecordingDataSource(
+  config: Config,
+  fixtureDir: string,
+  options: Omit<GitHubAnalyticsOptions, 'octokit' | 'cache'> = {}
+): DataSource {
+  // Recorded after the scheduler's retries, so fixtures hold the final outcome of each request
+  const octokit = createOctokit(config);
+  enableRecording(octokit, fixtureDir);
+  return new GitHubAnalytics(config, { ...options, octokit });
+}
+
+/**
+ * Create a data source that rebuilds the same data from recorded fixtures with no network access
+ */
+export function createReplayDataSource(
+  config: Config,
+  fixtureDir: string,
+  options: Omit<GitHubAnalyticsOptions, 'octokit' | 'cache'> = {}
+): DataSource {
+  return new GitHubAnalytics(config, { ...options, octokit: createReplayOctokit(fixtureDir) });
+}
+
+/**
+ * Create an Octokit client that serves every request from recorded fixtures
+ * without touching the network
+ */
+export function createReplayOctokit(fixtureDir: string): Octokit {
+  const octokit = new Octokit();
+
+  octokit.hook.wrap('request', async (_request, options) => {
+    const key = requestKey(octokit, options);
+    const file = Bun.file(fixturePath(fixtureDir, key));
+
+    if (!(await file.exists())) {
+      throw new Error(
+        `No recorded response for ${key.method} ${key.url} in ${fixtureDir}. ` +
+        'Replay with the same date range and configuration that was used when recording.'
+      );
+    }
+
+    const fixture: Fixture = await file.json();
+
+    if ('error' in fixture) {
+      throw Object.assign(new Error(fixture.error.message), { status: fixture.error.status });
+    }
+
+    return fixture.response;
+  });
+
+  return octokit;
+}
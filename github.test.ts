@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { Octokit } from '@octokit/rest';
+import type { Config, FetcherType } from './types.ts';
+import { GitHubAnalytics } from './github.ts';
+
+/**
+ * An issue of the fake repository with its comments in order
+ */
+interface FakeIssue {
+  number: number;
+  author: string;
+  createdAt: string;
+  comments: Array<{ author: string; createdAt: string }>;
+  closed?: { by: string; at: string };
+}
+
+const config: Config = { organization: 'acme', repositories: ['api'], excludeTeams: [] };
+const startDate = new Date('2024-01-01T00:00:00Z');
+const endDate = new Date('2024-01-07T23:59:59Z');
+const minute = (index: number) => `2024-01-02T10:${String(index).padStart(2, '0')}:00Z`;
+
+const issues: FakeIssue[] = [
+  {
+    // More outside comments than one GraphQL query returns before the first org reply
+    number: 1,
+    author: 'alice',
+    createdAt: '2024-01-02T09:00:00Z',
+    comments: [
+      ...Array.from({ length: 25 }, (_, index) => ({ author: 'bob', createdAt: minute(index) })),
+      { author: 'maintainer', createdAt: '2024-01-02T11:00:00Z' },
+    ],
+  },
+  {
+    number: 2,
+    author: 'carol',
+    createdAt: '2024-01-03T09:00:00Z',
+    comments: [{ author: 'maintainer', createdAt: '2024-01-03T10:00:00Z' }],
+  },
+  {
+    // Closed by its author without a response
+    number: 3,
+    author: 'dave',
+    createdAt: '2024-01-04T09:00:00Z',
+    comments: [],
+    closed: { by: 'dave', at: '2024-01-04T10:00:00Z' },
+  },
+];
+
+const url = (issue: FakeIssue) => `https://github.com/acme/api/issues/${issue.number}`;
+
+function restSearchItem(issue: FakeIssue) {
+  return {
+    number: issue.number,
+    title: `Issue ${issue.number}`,
+    html_url: url(issue),
+    state: issue.closed ? 'closed' : 'open',
+    created_at: issue.createdAt,
+    updated_at: issue.closed?.at ?? issue.createdAt,
+    closed_at: issue.closed?.at ?? null,
+    user: { login: issue.author },
+    labels: [],
+    locked: false,
+  };
+}
+
+function restTimeline(issue: FakeIssue) {
+  return [
+    ...issue.comments.map(comment => ({
+      event: 'commented',
+      actor: { login: comment.author },
+      user: { login: comment.author },
+      created_at: comment.createdAt,
+    })),
+    ...(issue.closed ? [{ event: 'closed', actor: { login: issue.closed.by }, created_at: issue.closed.at }] : []),
+  ];
+}
+
+function graphqlItem(issue: FakeIssue) {
+  const none = { pageInfo: { hasNextPage: false }, nodes: [] };
+  return {
+    __typename: 'Issue',
+    number: issue.number,
+    title: `Issue ${issue.number}`,
+    url: url(issue),
+    state: issue.closed ? 'CLOSED' : 'OPEN',
+    createdAt: issue.createdAt,
+    updatedAt: issue.closed?.at ?? issue.createdAt,
+    closedAt: issue.closed?.at ?? null,
+    locked: false,
+    author: { login: issue.author },
+    labels: { nodes: [] },
+    comments: {
+      pageInfo: { hasNextPage: issue.comments.length > 20 },
+      nodes: issue.comments.slice(0, 20).map(comment => ({ author: { login: comment.author }, createdAt: comment.createdAt })),
+    },
+    timelineItems: { nodes: issue.closed ? [{ actor: { login: issue.closed.by }, createdAt: issue.closed.at }] : [] },
+    transferred: { nodes: [] },
+    events: none,
+    reactions: none,
+  };
+}
+
+/**
+ * Answer a REST or GraphQL request from the fake repository
+ */
+function respond(requestUrl: URL): unknown {
+  const path = requestUrl.pathname;
+  const timeline = path.match(/^\/repos\/acme\/api\/issues\/(\d+)\/timeline$/);
+
+  if (path === '/orgs/acme/members') return [{ login: 'maintainer' }];
+  if (path === '/search/issues') {
+    const items = requestUrl.searchParams.get('q')!.includes('is:pr') ? [] : issues.map(restSearchItem);
+    return { total_count: items.length, incomplete_results: false, items };
+  }
+  if (timeline) return restTimeline(issues.find(issue => issue.number === Number(timeline[1]))!);
+  if (path === '/graphql') {
+    return {
+      data: {
+        rateLimit: { cost: 1, remaining: 4999, limit: 5000, resetAt: '2024-01-08T00:00:00Z' },
+        search: { issueCount: issues.length, pageInfo: { hasNextPage: false, endCursor: null }, nodes: issues.map(graphqlItem) },
+      },
+    };
+  }
+  throw new Error(`Unexpected request ${path}`);
+}
+
+/**
+ * Fetch the fake repository with the given fetcher, returning the items and the requested paths
+ */
+async function fetchWith(fetcher: FetcherType) {
+  const octokit = new Octokit();
+  const requests: string[] = [];
+
+  octokit.hook.wrap('request', async (_request, options) => {
+    const { method, url: requestUrl } = octokit.request.endpoint.parse(options);
+    const parsed = new URL(requestUrl);
+    requests.push(`${method} ${parsed.pathname}`);
+    return { status: 200, url: requestUrl, headers: {}, data: respond(parsed) };
+  });
+
+  const analytics = new GitHubAnalytics(config, { octokit, fetcher });
+  await analytics.fetchOrgMembers();
+  const items = await analytics.fetchAllData(['api'], startDate, endDate);
+  return { items, requests };
+}
+
+beforeEach(() => {
+  spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('fetchAllData', () => {
+  test('finds the same first responses with the REST and GraphQL fetchers', async () => {
+    const rest = await fetchWith('rest');
+    const graphql = await fetchWith('graphql');
+    const responses = (items: typeof rest.items) =>
+      items.map(item => [item.number, item.firstResponseAt?.toISOString(), item.respondedBy, item.state]);
+
+    expect(responses(rest.items)).toEqual([
+      [1, '2024-01-02T11:00:00.000Z', 'maintainer', 'open'],
+      [2, '2024-01-03T10:00:00.000Z', 'maintainer', 'open'],
+    ]);
+    expect(responses(graphql.items)).toEqual(responses(rest.items));
+  });
+
+  test('reads the REST timeline only for GraphQL items with more activity than the query returns', async () => {
+    const { requests } = await fetchWith('graphql');
+
+    expect(requests.filter(request => request.includes('/timeline'))).toEqual(['GET /repos/acme/api/issues/1/timeline']);
+  });
+});
+
+describe('fetchContributorHistory', () => {
+  /**
+   * Look up the given authors, answering each search from the outcomes by login (errors are thrown)
+   */
+  async function lookUp(outcomes: Record<string, Error | string[]>) {
+    const octokit = new Octokit();
+
+    octokit.hook.wrap('request', async (_request, options) => {
+      const { url: requestUrl } = octokit.request.endpoint.parse(options);
+      const login = new URL(requestUrl).searchParams.get('q')!.match(/^author:(\S+)/)![1];
+      const outcome = outcomes[login];
+      if (outcome instanceof Error) throw outcome;
+      const items = outcome.map(createdAt => ({ created_at: createdAt }));
+      return { status: 200, url: requestUrl, headers: {}, data: { total_count: items.length, incomplete_results: false, items } };
+    });
+
+    return new GitHubAnalytics(config, { octokit }).fetchContributorHistory(Object.keys(outcomes));
+  }
+
+  const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+  test('counts an author whose login the search rejects with 422 as unknown', async () => {
+    const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+    const histories = await lookUp({
+      alice: ['2024-01-02T09:00:00Z', '2024-03-01T09:00:00Z'],
+      suspended: httpError(422),
+      carol: ['2024-01-03T09:00:00Z'],
+    });
+
+    expect(histories).toEqual([
+      { login: 'alice', firstContributionAt: new Date('2024-01-02T09:00:00Z'), secondContributionAt: new Date('2024-03-01T09:00:00Z') },
+      { login: 'carol', firstContributionAt: new Date('2024-01-03T09:00:00Z'), secondContributionAt: null },
+    ]);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  test('fails on a rate limit left after the retries', async () => {
+    const lookup = lookUp({ alice: httpError(403), carol: ['2024-01-03T09:00:00Z'] });
+
+    await expect(lookup).rejects.toThrow('Failed to look up the contributions of alice: HTTP 403');
+  });
+});
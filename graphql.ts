@@ -0,0 +1,272 @@
+import type { Octokit } from '@octokit/rest';
+import type { ResponseEventType } from './types.ts';
+import type { ClockEvent } from './exclusions.ts';
+import { findEarliestResponse, type FirstResponse, type ResponseCandidate } from './responses.ts';
+
+// Only the earliest activity matters for first response - team usually responds early.
+// Items with more activity than this fall back to the REST timeline (see hasMoreActivity).
+const ITEMS_PER_PAGE = 25;
+const ACTIVITY_PER_ITEM = 20;
+const LABELS_PER_ITEM = 20;
+
+// Timeline events that can count as a response, by GraphQL type name
+const EVENT_TYPES: Record<string, ResponseEventType> = {
+  LabeledEvent: 'labeled',
+  AssignedEvent: 'assigned',
+  ClosedEvent: 'closed',
+  CrossReferencedEvent: 'cross-referenced',
+  ReviewRequestedEvent: 'review_requested',
+};
+
+const eventFragments = (typeNames: string[]) =>
+  typeNames.map(typeName => `... on ${typeName} { actor { login } createdAt }`).join(' ');
+
+const ISSUE_EVENTS = `
+  events: timelineItems(first: ${ACTIVITY_PER_ITEM}, itemTypes: [LABELED_EVENT, ASSIGNED_EVENT, CLOSED_EVENT, CROSS_REFERENCED_EVENT]) {
+    pageInfo { hasNextPage }
+    nodes { __typename ${eventFragments(['LabeledEvent', 'AssignedEvent', 'ClosedEvent', 'CrossReferencedEvent'])} }
+  }
+  reactions(first: ${ACTIVITY_PER_ITEM}) { pageInfo { hasNextPage } nodes { user { login } createdAt } }
+`;
+
+const PR_EVENTS = `
+  events: timelineItems(first: ${ACTIVITY_PER_ITEM}, itemTypes: [LABELED_EVENT, ASSIGNED_EVENT, CLOSED_EVENT, CROSS_REFERENCED_EVENT, REVIEW_REQUESTED_EVENT]) {
+    pageInfo { hasNextPage }
+    nodes { __typename ${eventFragments(Object.keys(EVENT_TYPES))} }
+  }
+  reactions(first: ${ACTIVITY_PER_ITEM}) { pageInfo { hasNextPage } nodes { user { login } createdAt } }
+`;
+
+const SEARCH_QUERY = `
+  query($q: String!, $cursor: String) {
+    rateLimit { cost remaining limit resetAt }
+    search(query: $q, type: ISSUE, first: ${ITEMS_PER_PAGE}, after: $cursor) {
+      issueCount
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        __typename
+        ... on Issue {
+          number
+          title
+          url
+          state
+          createdAt
+          updatedAt
+          closedAt
+          locked
+          author { login }
+          labels(first: ${LABELS_PER_ITEM}) { nodes { name } }
+          comments(first: ${ACTIVITY_PER_ITEM}) { pageInfo { hasNextPage } nodes { author { login } createdAt } }
+          timelineItems(itemTypes: [CLOSED_EVENT], last: 1) {
+            nodes { ... on ClosedEvent { actor { login } createdAt } }
+          }
+          transferred: timelineItems(itemTypes: [TRANSFERRED_EVENT], first: 1) {
+            nodes { ... on TransferredEvent { createdAt } }
+          }
+          ${ISSUE_EVENTS}
+        }
+        ... on PullRequest {
+          number
+          title
+          url
+          state
+          createdAt
+          updatedAt
+          closedAt
+          mergedAt
+          locked
+          isDraft
+          author { login }
+          labels(first: ${LABELS_PER_ITEM}) { nodes { name } }
+          mergedBy { login }
+          comments(first: ${ACTIVITY_PER_ITEM}) { pageInfo { hasNextPage } nodes { author { login } createdAt } }
+          reviews(first: ${ACTIVITY_PER_ITEM}) { pageInfo { hasNextPage } nodes { author { login } submittedAt } }
+          reviewThreads(first: ${ACTIVITY_PER_ITEM}) {
+            pageInfo { hasNextPage }
+            nodes { comments(first: 1) { nodes { author { login } createdAt } } }
+          }
+          timelineItems(itemTypes: [CLOSED_EVENT], last: 1) {
+            nodes { ... on ClosedEvent { actor { login } createdAt } }
+          }
+          readyForReview: timelineItems(itemTypes: [READY_FOR_REVIEW_EVENT], first: 1) {
+            nodes { ... on ReadyForReviewEvent { createdAt } }
+          }
+          ${PR_EVENTS}
+        }
+      }
+    }
+  }
+`;
+
+interface Actor {
+  login: string;
+}
+
+interface Activity {
+  author: Actor | null;
+  createdAt: string;
+}
+
+interface ClosedEvent {
+  actor: Actor | null;
+  createdAt: string;
+}
+
+/**
+ * A connection capped at ACTIVITY_PER_ITEM nodes, with whether more nodes exist
+ */
+interface Activities<T> {
+  pageInfo: { hasNextPage: boolean };
+  nodes: T[];
+}
+
+interface TimelineEvent {
+  __typename: string;
+  actor: Actor | null;
+  createdAt: string;
+}
+
+export interface GraphQLItem {
+  __typename: 'Issue' | 'PullRequest';
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  locked: boolean;
+  author: Actor | null;
+  labels: { nodes: Array<{ name: string }> };
+  comments: Activities<Activity>;
+  timelineItems: { nodes: ClosedEvent[] };
+  events: Activities<TimelineEvent>;
+  reactions: Activities<{ user: Actor | null; createdAt: string }>;
+  transferred?: { nodes: Array<{ createdAt: string }> };
+  readyForReview?: { nodes: Array<{ createdAt: string }> };
+  isDraft?: boolean;
+  mergedAt?: string | null;
+  mergedBy?: Actor | null;
+  reviews?: Activities<{ author: Actor | null; submittedAt: string | null }>;
+  reviewThreads?: Activities<{ comments: { nodes: Activity[] } }>;
+}
+
+interface SearchResponse {
+  rateLimit: { cost: number; remaining: number; limit: number; resetAt: string };
+  search: {
+    issueCount: number;
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: GraphQLItem[];
+  };
+}
+
+/**
+ * Fetches issues and PRs together with their earliest activity in paged bulk queries
+ */
+export class GraphQLFetcher {
+  private octokit: Octokit;
+  private totalCost: number;
+
+  constructor(octokit: Octokit) {
+    this.octokit = octokit;
+    this.totalCost = 0;
+  }
+
+  /**
+   * Run a search query and return all matching issues and PRs
+   */
+  async search(query: string): Promise<GraphQLItem[]> {
+    const items: GraphQLItem[] = [];
+    let cursor: string | null = null;
+    let page = 1;
+
+    do {
+      const response: SearchResponse = await this.octokit.graphql<SearchResponse>(SEARCH_QUERY, {
+        q: query,
+        cursor,
+      });
+
+      const { rateLimit, search } = response;
+      this.totalCost += rateLimit.cost;
+      console.log(`  GraphQL page ${page}: ${search.nodes.length} items, cost ${rateLimit.cost} (${rateLimit.remaining}/${rateLimit.limit} points remaining)`);
+
+      // Search nodes can be empty objects for items the token can't see
+      items.push(...search.nodes.filter(node => node && node.__typename));
+      cursor = search.pageInfo.hasNextPage ? search.pageInfo.endCursor : null;
+      page++;
+    } while (cursor);
+
+    return items;
+  }
+
+  /**
+   * Get the total GraphQL rate limit cost of all queries in this run
+   */
+  getTotalCost(): number {
+    return this.totalCost;
+  }
+}
+
+/**
+ * When the response clock of an item starts if a timeline event moves it, or null for creation
+ */
+export function findClockStart(item: GraphQLItem, clockEvent?: ClockEvent): Date | null {
+  const events = clockEvent === 'ready_for_review' ? item.readyForReview
+    : clockEvent === 'transferred' ? item.transferred
+    : undefined;
+  const createdAt = events?.nodes[0]?.createdAt;
+  return createdAt ? new Date(createdAt) : null;
+}
+
+/**
+ * Whether a connection of a counted event type was cut off at ACTIVITY_PER_ITEM, so the
+ * earliest response may be missing from the query and the item has to be read from the timeline
+ */
+export function hasMoreActivity(item: GraphQLItem, events: Set<ResponseEventType>): boolean {
+  const truncated = (connection: Activities<unknown> | undefined, counted: boolean) =>
+    counted && !!connection?.pageInfo.hasNextPage;
+
+  return truncated(item.comments, events.has('commented'))
+    || truncated(item.reviews, events.has('reviewed'))
+    || truncated(item.reviewThreads, events.has('review_commented'))
+    || truncated(item.events, Object.values(EVENT_TYPES).some(type => events.has(type)))
+    || truncated(item.reactions, events.has('reacted'));
+}
+
+/**
+ * Find the earliest activity on an item by a responder whose event type is counted
+ * (comments, reviews, review comments, merges, timeline events and reactions).
+ * With `since`, activity before the response clock started is ignored.
+ */
+export function findFirstResponse(
+  item: GraphQLItem,
+  events: Set<ResponseEventType>,
+  isResponder: (login: string) => boolean,
+  since: Date | null = null
+): FirstResponse | null {
+  const candidates: ResponseCandidate[] = [];
+
+  const add = (author: Actor | null | undefined, date: string | null | undefined, event: ResponseEventType) => {
+    if (author?.login && date) {
+      candidates.push({ date: new Date(date), author: author.login, event });
+    }
+  };
+
+  item.comments.nodes.forEach(comment => add(comment.author, comment.createdAt, 'commented'));
+  item.reviews?.nodes.forEach(review => add(review.author, review.submittedAt, 'reviewed'));
+  item.reviewThreads?.nodes.forEach(thread =>
+    thread.comments.nodes.forEach(comment => add(comment.author, comment.createdAt, 'review_commented'))
+  );
+  add(item.mergedBy, item.mergedAt, 'merged');
+  item.events.nodes.forEach(event => {
+    const type = EVENT_TYPES[event.__typename];
+    if (type) add(event.actor, event.createdAt, type);
+  });
+  item.reactions.nodes.forEach(reaction => add(reaction.user, reaction.createdAt, 'reacted'));
+
+  return findEarliestResponse(
+    since ? candidates.filter(candidate => candidate.date >= since) : candidates,
+    events,
+    isResponder
+  );
+}
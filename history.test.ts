@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { appendFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { HistorySnapshot, IssueData } from './types.ts';
+import { calculateWeeklyTrends, HistoryStore, mergeWeeklySeries } from './history.ts';
+import { calculateOverallMetrics, calculateWeeklySummary } from './metrics.ts';
+import { testItem } from './test-data.ts';
+
+/**
+ * Items of one week starting on the given Monday, `within` of them answered within the hour
+ */
+function week(monday: string, total: number, within: number): IssueData[] {
+  const weekStarting = new Date(`${monday}T00:00:00Z`);
+  return Array.from({ length: total }, (_, index) => testItem({
+    number: index,
+    createdAt: weekStarting,
+    weekStarting,
+    responseTimeHours: index < within ? 1 : 30,
+    respondedWithinOneDay: index < within,
+  }));
+}
+
+function snapshot(items: IssueData[], recordedAt: string): HistorySnapshot {
+  return {
+    recordedAt: new Date(recordedAt),
+    organization: 'acme',
+    startDate: items[0].weekStarting,
+    endDate: new Date(items[0].weekStarting.getTime() + 7 * 24 * 60 * 60 * 1000 - 1),
+    overall: calculateOverallMetrics(items),
+    weeklySummary: calculateWeeklySummary(items),
+  };
+}
+
+let dir: string;
+let historyFile: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'history-'));
+  historyFile = join(dir, 'nested', '.history.jsonl');
+  spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  mock.restore();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('HistoryStore', () => {
+  test('reads back appended snapshots with their dates', async () => {
+    const stored = snapshot(week('2024-01-01', 4, 3), '2024-01-08T09:00:00Z');
+    await new HistoryStore(historyFile).append(stored);
+
+    const history = new HistoryStore(historyFile);
+    await history.load();
+
+    expect(history.getSnapshots('acme')).toEqual([stored]);
+    expect(history.getSnapshots('other')).toEqual([]);
+  });
+
+  test('skips lines of another version and unreadable lines', async () => {
+    const stored = snapshot(week('2024-01-01', 4, 3), '2024-01-08T09:00:00Z');
+    await new HistoryStore(historyFile).append(stored);
+    const { version, ...unversioned } = JSON.parse(await Bun.file(historyFile).text());
+    expect(version).toBe(1);
+    await appendFile(historyFile, JSON.stringify(unversioned) + '\n');
+    await appendFile(historyFile, JSON.stringify({ ...unversioned, version: 2 }) + '\n');
+    await appendFile(historyFile, '{"truncated\n');
+
+    const history = new HistoryStore(historyFile);
+    await history.load();
+
+    expect(history.getSnapshots()).toEqual([stored, stored]);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/line 3 in .*: unsupported snapshot version 2/));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('line 4 in'));
+  });
+});
+
+describe('calculateWeeklyTrends', () => {
+  test('compares stored weeks after a round trip, with no change against a week no run covered', async () => {
+    const writer = new HistoryStore(historyFile);
+    await writer.append(snapshot(week('2024-01-01', 4, 2), '2024-01-08T09:00:00Z'));
+    await writer.append(snapshot(week('2024-01-08', 4, 3), '2024-01-15T09:00:00Z'));
+    // No run covered the week of 2024-01-15
+    await writer.append(snapshot(week('2024-01-22', 4, 4), '2024-01-29T09:00:00Z'));
+
+    const history = new HistoryStore(historyFile);
+    await history.load();
+    const series = mergeWeeklySeries(history.getSnapshots('acme'));
+    const trends = calculateWeeklyTrends(series, series);
+
+    expect(trends.map(trend => [trend.weekStarting.toISOString().slice(0, 10), trend.withinOneDayPercentage.previousDelta, trend.trailingWeeks]))
+      .toEqual([
+        ['2024-01-01', null, 0],
+        ['2024-01-08', 25, 1],
+        ['2024-01-22', null, 2],
+      ]);
+    // The trailing average still covers the earlier weeks: 5 of 8 items
+    expect(trends[2].withinOneDayPercentage.trailingAverageDelta).toBeCloseTo(100 - 62.5);
+  });
+
+  test('averages only the 12 weeks before each week when runs were missed', () => {
+    const series = mergeWeeklySeries([
+      snapshot(week('2023-09-25', 4, 4), '2023-10-02T09:00:00Z'),
+      snapshot(week('2023-10-16', 4, 2), '2023-10-23T09:00:00Z'),
+      snapshot(week('2024-01-01', 4, 1), '2024-01-08T09:00:00Z'),
+      snapshot(week('2024-01-08', 4, 4), '2024-01-15T09:00:00Z'),
+    ]);
+
+    const [trend] = calculateWeeklyTrends(series, series.slice(-1));
+
+    // 2023-10-16 is 12 weeks back; 2023-09-25 is older: 3 of 8 items
+    expect(trend.trailingWeeks).toBe(2);
+    expect(trend.withinOneDayPercentage.trailingAverage).toBeCloseTo(37.5);
+  });
+});
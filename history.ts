@@ -0,0 +1,174 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { HistorySnapshot, TrendDelta, WeeklySummary, WeeklyTrend } from './types.ts';
+
+/**
+ * Number of earlier weeks averaged for the trailing comparison
+ */
+export const TRAILING_WEEKS = 12;
+
+// Bump when the stored snapshot shape changes; lines with another version are skipped
+const HISTORY_VERSION = 1;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A snapshot as stored on one line of the history file. Lines written before snapshots
+ * were versioned have no version and are read as version 1.
+ */
+type SerializedHistorySnapshot = Omit<HistorySnapshot, 'recordedAt' | 'startDate' | 'endDate' | 'weeklySummary'> & {
+  version?: number;
+  recordedAt: string;
+  startDate: string;
+  endDate: string;
+  weeklySummary: Array<Omit<WeeklySummary, 'weekStarting'> & { weekStarting: string }>;
+};
+
+function serializeSnapshot(snapshot: HistorySnapshot): SerializedHistorySnapshot {
+  return {
+    version: HISTORY_VERSION,
+    ...snapshot,
+    recordedAt: snapshot.recordedAt.toISOString(),
+    startDate: snapshot.startDate.toISOString(),
+    endDate: snapshot.endDate.toISOString(),
+    weeklySummary: snapshot.weeklySummary.map(week => ({ ...week, weekStarting: week.weekStarting.toISOString() })),
+  };
+}
+
+function deserializeSnapshot(raw: SerializedHistorySnapshot): HistorySnapshot {
+  const version = raw.version ?? 1;
+  if (version !== HISTORY_VERSION) {
+    throw new Error(`unsupported snapshot version ${version} (expected ${HISTORY_VERSION})`);
+  }
+
+  return {
+    recordedAt: new Date(raw.recordedAt),
+    organization: raw.organization,
+    startDate: new Date(raw.startDate),
+    endDate: new Date(raw.endDate),
+    overall: raw.overall,
+    weeklySummary: raw.weeklySummary.map(week => ({ ...week, weekStarting: new Date(week.weekStarting) })),
+  };
+}
+
+/**
+ * Append-only store of report snapshots, one JSON object per line
+ */
+export class HistoryStore {
+  private historyFile: string;
+  private snapshots: HistorySnapshot[];
+
+  constructor(historyFile: string) {
+    this.historyFile = historyFile;
+    this.snapshots = [];
+  }
+
+  /**
+   * Load all stored snapshots (missing file = no history yet, unreadable lines are skipped)
+   */
+  async load(): Promise<void> {
+    const file = Bun.file(this.historyFile);
+    if (!(await file.exists())) return;
+
+    const lines = (await file.text()).split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const raw: SerializedHistorySnapshot = JSON.parse(line);
+        this.snapshots.push(deserializeSnapshot(raw));
+      } catch (error: any) {
+        console.warn(`  ⚠️  Skipping unreadable line ${index + 1} in ${this.historyFile}: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Get stored snapshots in the order they were recorded, optionally for one organization
+   */
+  getSnapshots(organization?: string): HistorySnapshot[] {
+    return organization
+      ? this.snapshots.filter(snapshot => snapshot.organization === organization)
+      : [...this.snapshots];
+  }
+
+  /**
+   * Append a snapshot to the history file
+   */
+  async append(snapshot: HistorySnapshot): Promise<void> {
+    await mkdir(dirname(this.historyFile), { recursive: true });
+    await appendFile(this.historyFile, JSON.stringify(serializeSnapshot(snapshot)) + '\n');
+    this.snapshots.push(snapshot);
+  }
+}
+
+/**
+ * Merge the weekly summaries of all snapshots into one time series, oldest week first.
+ * When several snapshots cover the same week, the most recently recorded one wins.
+ */
+export function mergeWeeklySeries(snapshots: HistorySnapshot[]): WeeklySummary[] {
+  const weeks = new Map<number, WeeklySummary>();
+
+  for (const snapshot of snapshots) {
+    for (const week of snapshot.weeklySummary) {
+      weeks.set(week.weekStarting.getTime(), week);
+    }
+  }
+
+  return Array.from(weeks.values())
+    .sort((a, b) => a.weekStarting.getTime() - b.weekStarting.getTime());
+}
+
+function compare(current: number | null, previous: number | null, trailingAverage: number | null): TrendDelta {
+  return {
+    current,
+    previous,
+    previousDelta: current !== null && previous !== null ? current - previous : null,
+    trailingAverage,
+    trailingAverageDelta: current !== null && trailingAverage !== null ? current - trailingAverage : null,
+  };
+}
+
+/**
+ * Compare each week with the week before it and with the average of the trailingWeeks weeks
+ * before it, of which the series may be missing some. When no run covered the week before,
+ * there is no week-over-week change.
+ * The percentage average is weighted by item count; the median average is the mean of
+ * the weekly medians.
+ */
+export function calculateWeeklyTrends(
+  series: WeeklySummary[],
+  weeks: WeeklySummary[],
+  trailingWeeks: number = TRAILING_WEEKS
+): WeeklyTrend[] {
+  return weeks.map(week => {
+    const earlier = series.filter(entry => entry.weekStarting < week.weekStarting);
+    const last = earlier.length > 0 ? earlier[earlier.length - 1] : null;
+    // Week starts are 7 days apart give or take a DST hour
+    const previous = last && week.weekStarting.getTime() - last.weekStarting.getTime() < 1.5 * WEEK_MS ? last : null;
+    const trailing = earlier.filter(entry =>
+      entry.weekStarting.getTime() >= week.weekStarting.getTime() - (trailingWeeks + 0.5) * WEEK_MS);
+
+    const trailingTotal = trailing.reduce((sum, entry) => sum + entry.totalIssues, 0);
+    const trailingWithinOneDay = trailing.reduce((sum, entry) => sum + entry.respondedWithinOneDay, 0);
+    const trailingMedians = trailing
+      .map(entry => entry.responseTimes.median)
+      .filter((median): median is number => median !== null);
+
+    return {
+      weekStarting: week.weekStarting,
+      trailingWeeks: trailing.length,
+      withinOneDayPercentage: compare(
+        week.percentage,
+        previous ? previous.percentage : null,
+        trailingTotal > 0 ? (trailingWithinOneDay / trailingTotal) * 100 : null
+      ),
+      medianResponseTimeHours: compare(
+        week.responseTimes.median,
+        previous ? previous.responseTimes.median : null,
+        trailingMedians.length > 0
+          ? trailingMedians.reduce((sum, median) => sum + median, 0) / trailingMedians.length
+          : null
+      ),
+    };
+  });
+}
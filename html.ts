@@ -0,0 +1,287 @@
+import type { HistogramBucket, IssueData, OverallMetrics, ReportData, WeeklySummary } from './types.ts';
+import { formatDate } from './utils.ts';
+import { formatHours, getOneDayPercentage } from './output.ts';
+import { findWeakestWeek } from './metrics.ts';
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 260;
+const CHART_PADDING = 40;
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 1100px; color: #1f2328; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2.5rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; }
+  .subtitle { color: #656d76; margin-top: 0; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(160px, 1fr)); gap: 1rem; }
+  .card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; }
+  .card .value { font-size: 1.6rem; font-weight: 600; }
+  .card .label { color: #656d76; font-size: 0.85rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { border: 1px solid #d0d7de; padding: 0.35rem 0.6rem; text-align: left; }
+  th { background: #f6f8fa; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  table.sortable th { cursor: pointer; user-select: none; }
+  table.sortable th::after { content: " ⇅"; color: #8c959f; }
+  svg text { font-size: 11px; fill: #656d76; }
+  .weakest { background: #fff1e5; }
+`;
+
+// Sorts a table by the clicked column, using data-sort values when present
+const SORT_SCRIPT = `
+  document.querySelectorAll('table.sortable').forEach(table => {
+    table.querySelectorAll('th').forEach((th, column) => {
+      let ascending = true;
+      th.addEventListener('click', () => {
+        const tbody = table.tBodies[0];
+        const value = row => {
+          const cell = row.cells[column];
+          return cell.dataset.sort !== undefined ? cell.dataset.sort : cell.textContent.trim();
+        };
+        const rows = Array.from(tbody.rows).sort((a, b) => {
+          const x = value(a), y = value(b);
+          const numeric = x !== '' && y !== '' && !isNaN(x) && !isNaN(y);
+          // Compare equal values as 0: two 'Infinity' (never answered) cells would subtract to NaN
+          const order = x === y ? 0 : numeric ? Number(x) - Number(y) : x.localeCompare(y);
+          return ascending ? order : -order;
+        });
+        ascending = !ascending;
+        rows.forEach(row => tbody.appendChild(row));
+      });
+    });
+  });
+`;
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function card(label: string, value: string): string {
+  return `<div class="card"><div class="value">${escapeHtml(value)}</div><div class="label">${escapeHtml(label)}</div></div>`;
+}
+
+/**
+ * Render the weekly percentage responded within one business day as an SVG line chart
+ */
+function renderWeeklyChart(weeklySummary: WeeklySummary[], timezone: string): string {
+  if (weeklySummary.length === 0) return '<p>No data.</p>';
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const step = weeklySummary.length > 1 ? plotWidth / (weeklySummary.length - 1) : 0;
+  const x = (index: number) => CHART_PADDING + (weeklySummary.length > 1 ? index * step : plotWidth / 2);
+  const y = (percentage: number) => CHART_PADDING + plotHeight - (percentage / 100) * plotHeight;
+
+  const gridLines = [0, 25, 50, 75, 100].map(percentage =>
+    `<line x1="${CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y1="${y(percentage)}" y2="${y(percentage)}" stroke="#eaeef2"/>` +
+    `<text x="${CHART_PADDING - 6}" y="${y(percentage) + 4}" text-anchor="end">${percentage}%</text>`
+  );
+
+  const points = weeklySummary.map((week, index) => `${x(index)},${y(week.percentage)}`).join(' ');
+
+  const markers = weeklySummary.map((week, index) => {
+    const label = `${formatDate(week.weekStarting, timezone)}: ${week.percentage.toFixed(1)}% of ${week.totalIssues}`;
+    return `<circle cx="${x(index)}" cy="${y(week.percentage)}" r="4" fill="#0969da"><title>${escapeHtml(label)}</title></circle>` +
+      `<text x="${x(index)}" y="${CHART_HEIGHT - CHART_PADDING + 16}" text-anchor="middle">${formatDate(week.weekStarting, timezone).slice(5)}</text>`;
+  });
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" role="img" aria-label="Weekly percentage responded within 1 business day">
+  ${gridLines.join('\n  ')}
+  <polyline points="${points}" fill="none" stroke="#0969da" stroke-width="2"/>
+  ${markers.join('\n  ')}
+</svg>`;
+}
+
+/**
+ * Render response time distribution buckets as an SVG bar chart
+ */
+function renderHistogram(histogram: HistogramBucket[]): string {
+  const maxCount = Math.max(1, ...histogram.map(bucket => bucket.count));
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const slot = plotWidth / histogram.length;
+  const barWidth = slot * 0.7;
+
+  const bars = histogram.map((bucket, index) => {
+    const height = (bucket.count / maxCount) * plotHeight;
+    const left = CHART_PADDING + index * slot + (slot - barWidth) / 2;
+    const top = CHART_PADDING + plotHeight - height;
+    const fill = bucket.label === 'never' ? '#cf222e' : '#0969da';
+    return `<rect x="${left}" y="${top}" width="${barWidth}" height="${height}" fill="${fill}"><title>${escapeHtml(bucket.label)}: ${bucket.count}</title></rect>` +
+      `<text x="${left + barWidth / 2}" y="${top - 4}" text-anchor="middle">${bucket.count}</text>` +
+      `<text x="${left + barWidth / 2}" y="${CHART_HEIGHT - CHART_PADDING + 16}" text-anchor="middle">${escapeHtml(bucket.label)}</text>`;
+  });
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" role="img" aria-label="Response time distribution">
+  <line x1="${CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y1="${CHART_PADDING + plotHeight}" y2="${CHART_PADDING + plotHeight}" stroke="#d0d7de"/>
+  ${bars.join('\n  ')}
+</svg>`;
+}
+
+/**
+ * Render a summary table and a row x week table for a breakdown (by repository or label group)
+ */
+function renderBreakdownTables(
+  nameHeader: string,
+  breakdown: Array<{ name: string; metrics: OverallMetrics; weeklySummary: WeeklySummary[] }>,
+  weeks: Date[],
+  timezone: string
+): string {
+  if (breakdown.length === 0) return '<p>No data.</p>';
+
+  const summaryRows = breakdown.map(({ name, metrics }) => {
+    const total = metrics.totalIssues + metrics.totalPRs;
+    const percentage = getOneDayPercentage(metrics);
+    return `<tr><td>${escapeHtml(name)}</td>` +
+      `<td class="num">${total}</td>` +
+      `<td class="num" data-sort="${percentage}">${percentage.toFixed(1)}%</td>` +
+      `<td class="num" data-sort="${metrics.medianResponseTimeHours ?? ''}">${formatHours(metrics.medianResponseTimeHours)}</td>` +
+      `<td class="num" data-sort="${metrics.p90ResponseTimeHours ?? ''}">${formatHours(metrics.p90ResponseTimeHours)}</td>` +
+      `<td class="num" data-sort="${metrics.lifecycle.prMergeRate}">${metrics.lifecycle.prMergeRate.toFixed(1)}%</td></tr>`;
+  });
+
+  const weekRows = breakdown.map(({ name, weeklySummary }) => {
+    const weakest = weeklySummary.length > 1 ? findWeakestWeek(weeklySummary) : null;
+    const cells = weeks.map(weekStarting => {
+      const week = weeklySummary.find(entry => entry.weekStarting.getTime() === weekStarting.getTime());
+      if (!week) return '<td class="num">-</td>';
+      const className = week === weakest ? 'num weakest' : 'num';
+      return `<td class="${className}">${week.percentage.toFixed(1)}% (${week.totalIssues})</td>`;
+    });
+    return `<tr><td>${escapeHtml(name)}</td>${cells.join('')}</tr>`;
+  });
+
+  return `<table class="sortable">
+  <thead><tr><th>${nameHeader}</th><th>Items</th><th>Within 1 Day</th><th>Median (h)</th><th>P90 (h)</th><th>PR Merge Rate</th></tr></thead>
+  <tbody>
+  ${summaryRows.join('\n  ')}
+  </tbody>
+</table>
+<h3>% responded within 1 business day by week (items; weakest week highlighted)</h3>
+<table>
+  <thead><tr><th>${nameHeader}</th>${weeks.map(week => `<th>${formatDate(week, timezone)}</th>`).join('')}</tr></thead>
+  <tbody>
+  ${weekRows.join('\n  ')}
+  </tbody>
+</table>`;
+}
+
+/**
+ * Render the per-repository summary and repository x week tables
+ */
+function renderRepositoryTables(report: ReportData): string {
+  const breakdown = report.repositoryMetrics.map(repo => ({ ...repo, name: repo.repository }));
+  return renderBreakdownTables('Repository', breakdown, report.weeklySummary.map(week => week.weekStarting), report.timezone);
+}
+
+/**
+ * Render the per-label-group section, when label groups are configured
+ */
+function renderLabelGroupSection(report: ReportData): string {
+  if (report.labelGroupMetrics.length === 0) return '';
+
+  const breakdown = report.labelGroupMetrics.map(group => ({ ...group, name: group.group }));
+  return `<h2>By label group</h2>
+${renderBreakdownTables('Label Group', breakdown, report.weeklySummary.map(week => week.weekStarting), report.timezone)}
+`;
+}
+
+/**
+ * Render a sortable table of items that were not responded to within one business day
+ */
+function renderMissedItems(items: IssueData[], timezone: string): string {
+  const missed = items
+    .filter(item => !item.respondedWithinOneDay)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  if (missed.length === 0) return '<p>Every item got a response within 1 business day. 🎉</p>';
+
+  const rows = missed.map(item =>
+    `<tr><td>${escapeHtml(item.repository)}</td>` +
+    `<td>${item.type === 'pr' ? 'PR' : 'Issue'}</td>` +
+    `<td data-sort="${item.number}"><a href="${escapeHtml(item.url)}">#${item.number}</a> ${escapeHtml(item.title)}</td>` +
+    `<td data-sort="${item.createdAt.toISOString()}">${formatDate(item.createdAt, timezone)}</td>` +
+    `<td class="num" data-sort="${item.responseTimeHours ?? 'Infinity'}">${item.responseTimeHours !== null ? item.responseTimeHours.toFixed(1) : 'never'}</td>` +
+    `<td>${escapeHtml(item.respondedBy || '')}</td>` +
+    `<td>${escapeHtml(item.reportedBy || '')}</td>` +
+    `<td>${item.state}</td></tr>`
+  );
+
+  return `<table class="sortable">
+  <thead><tr><th>Repository</th><th>Type</th><th>Item</th><th>Created</th><th>Response (h)</th><th>Responded By</th><th>Reported By</th><th>State</th></tr></thead>
+  <tbody>
+  ${rows.join('\n  ')}
+  </tbody>
+</table>`;
+}
+
+/**
+ * Generate a single static HTML report with inline styles and SVG charts (no external assets)
+ */
+export function generateHTMLReport(report: ReportData, organization: string): string {
+  const { metrics } = report;
+  const totalItems = metrics.totalIssues + metrics.totalPRs;
+  const dateRange = `${formatDate(report.startDate, report.timezone)} to ${formatDate(report.endDate, report.timezone)}`;
+
+  const cards = [
+    card('Issues and PRs', totalItems.toString()),
+    card('Within 1 business day', `${getOneDayPercentage(metrics).toFixed(1)}%`),
+    card('Issue response rate', `${metrics.issueResponseRate.toFixed(1)}%`),
+    card('PR response rate', `${metrics.prResponseRate.toFixed(1)}%`),
+    card('Median response (h)', formatHours(metrics.medianResponseTimeHours)),
+    card('P90 response (h)', formatHours(metrics.p90ResponseTimeHours)),
+    card('PR merge rate', `${metrics.lifecycle.prMergeRate.toFixed(1)}%`),
+    card('Median time to merge (h)', formatHours(metrics.lifecycle.medianTimeToMergeHours)),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>GitHub Response Time Report - ${escapeHtml(organization)} - ${dateRange}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>GitHub Response Time Report</h1>
+<p class="subtitle">${escapeHtml(organization)} &middot; ${dateRange} &middot; response times in working hours</p>
+
+<h2>Overall</h2>
+<div class="cards">
+  ${cards.join('\n  ')}
+</div>
+
+<h2>Weekly % responded within 1 business day</h2>
+${renderWeeklyChart(report.weeklySummary, report.timezone)}
+
+<h2>Response time distribution</h2>
+${renderHistogram(metrics.responseTimeHistogram)}
+
+<h2>By repository</h2>
+${renderRepositoryTables(report)}
+
+${renderLabelGroupSection(report)}<h2>Missed items - no response within 1 business day</h2>
+${renderMissedItems(report.items, report.timezone)}
+
+<script>${SORT_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Save the HTML report to file
+ */
+export async function saveHTMLReport(report: ReportData, organization: string, filename?: string): Promise<string> {
+  const filepath = filename || 'response-times.html';
+
+  await Bun.write(filepath, generateHTMLReport(report, organization));
+
+  return filepath;
+}
@@ -1,135 +1,427 @@
 #!/usr/bin/env bun
-import { parseArgs } from './utils.ts';
-import type { Config } from './types.ts';
+import { parseArgs, calculateWorkingHours, formatDate, resolveDateRange } from './utils.ts';
+import type { BusinessCalendar, Config, DataSource, HistorySnapshot, Notifier, OrganizationConfig, ReportData } from './types.ts';
 import { GitHubAnalytics } from './github.ts';
-import { calculateOverallMetrics, calculateWeeklySummary } from './metrics.ts';
-import { displayConsoleOutput, saveCSV, displaySummary } from './output.ts';
-import { postWeeklySummaryToSlack, postFullReportToSlack, postWeeklySummaryWithFileToSlack } from './slack.ts';
+import { createOctokit, describeRateLimits } from './scheduler.ts';
+import { ResponseCache } from './cache.ts';
+import { createRecordingDataSource, createReplayDataSource } from './fixtures.ts';
+import { loadBusinessCalendar, describeCalendar } from './calendar.ts';
+import { resolveResponseEvents } from './responses.ts';
+import { calculateOverallMetrics, calculateWeeklySummary, calculateRepositoryMetrics, calculateLabelGroupMetrics } from './metrics.ts';
+import { calculateResponderReport } from './responders.ts';
+import { calculateContributorReport, listAuthors } from './contributors.ts';
+import { calculateBacklogReport } from './backlog.ts';
+import { AlertState, DEFAULT_WARN_RATIO, findItemsNearingBreach, sendSlaAlerts } from './watch.ts';
+import { HistoryStore, mergeWeeklySeries, calculateWeeklyTrends } from './history.ts';
+import { saveHTMLReport } from './html.ts';
+import { generateMarkdownReport, saveMarkdownReport, appendToStepSummary } from './markdown.ts';
+import {
+  displayConsoleOutput,
+  displayResponderReport,
+  displayContributorReport,
+  displayBacklogReport,
+  displayHistory,
+  saveCSV,
+  saveSummaryCSV,
+  saveResponderCSV,
+  saveBacklogCSV,
+  saveJSONReport,
+  displaySummary,
+  displayExclusionSummary,
+} from './output.ts';
+import { createNotifiers, notifyAll } from './notifiers.ts';
+import { describeItemFilters } from './labels.ts';
+import { describeExclusionRules, resolveExclusionRules, summarizeExclusions } from './exclusions.ts';
+import { checkConfigAgainstGitHub, findConfigFile, loadConfig } from './config.ts';
+import {
+  describeRepositoryDiscovery,
+  getExcludeTeams,
+  getOrganizationLabel,
+  getOrganizations,
+  resolveRepositories,
+} from './repositories.ts';
+
+/**
+ * Report every open external item without an org response, grouped by age
+ */
+async function runBacklog(
+  analytics: DataSource,
+  repositories: string[],
+  calendar: BusinessCalendar,
+  notifiers: Notifier[]
+): Promise<void> {
+  console.log('Fetching open issues and pull requests...\n');
+  const openItems = await analytics.fetchBacklog(repositories);
+  const report = calculateBacklogReport(openItems, calendar);
+
+  displayExclusionSummary(summarizeExclusions(analytics.getExcludedItems()));
+
+  displayBacklogReport(report);
+
+  const csvPath = await saveBacklogCSV(report);
+  console.log(`\n📄 Backlog CSV saved to: ${csvPath}\n`);
+
+  await notifyAll(notifiers, 'backlog', notifier => notifier.sendBacklog(report));
+  console.log('');
+}
+
+/**
+ * Alert on open external items that are close to breaching the response SLA
+ * Meant to run hourly; items are only alerted on once
+ */
+async function runWatch(
+  analytics: DataSource,
+  config: Config,
+  repositories: string[],
+  calendar: BusinessCalendar,
+  notifiers: Notifier[]
+): Promise<void> {
+  const warnAfterHours = config.watch?.warnAfterHours ?? calendar.slaHours * DEFAULT_WARN_RATIO;
+  const stateFile = config.watch?.stateFile || '.watch-state.json';
+  const now = new Date();
+
+  console.log(`Watching for items older than ${warnAfterHours}h of the ${calendar.slaHours}h SLA...\n`);
+
+  const state = new AlertState(stateFile);
+  await state.load();
+
+  // Only keep items whose age since their clock start is inside the alert window
+  const openItems = await analytics.fetchBacklog(repositories, measuredFrom => {
+    const ageHours = calculateWorkingHours(measuredFrom, now, calendar);
+    return ageHours >= warnAfterHours && ageHours <= calendar.slaHours;
+  });
+
+  displayExclusionSummary(summarizeExclusions(analytics.getExcludedItems()));
+
+  const nearing = findItemsNearingBreach(openItems, calendar, warnAfterHours, now);
+  const newAlerts = nearing.filter(({ item }) => !state.hasAlerted(item));
+
+  console.log(`\n⏰ ${nearing.length} items close to the SLA, ${newAlerts.length} not alerted yet`);
+  for (const { item, ageHours } of newAlerts) {
+    console.log(`  ${item.repository}#${item.number} (${ageHours.toFixed(1)}h) ${item.url}`);
+  }
+
+  // Forget items that have been answered or closed since they were alerted
+  state.prune(openItems);
+
+  if (newAlerts.length > 0) {
+    if (notifiers.length === 0) {
+      console.log('\n⚠️  No notifiers configured; alerts were not sent and will be retried on the next run');
+    } else {
+      console.log('');
+      await sendSlaAlerts(newAlerts, notifiers, state, calendar.slaHours, now);
+    }
+  }
+
+  await state.save();
+  console.log('');
+}
+
+/**
+ * Print the full weekly time series stored in the history file
+ */
+async function runHistory(config: Config): Promise<void> {
+  const history = new HistoryStore(config.historyFile || '.history.jsonl');
+  await history.load();
+
+  const snapshots = history.getSnapshots(getOrganizationLabel(config));
+  const series = mergeWeeklySeries(snapshots);
+  const calendar = await loadBusinessCalendar(config.businessCalendar);
+  displayHistory(snapshots, series, calculateWeeklyTrends(series, series), calendar.timezone);
+  console.log('');
+}
+
+/**
+ * Check the config beyond its schema: calendar, response rules and notifiers,
+ * and that the organizations, repositories and teams exist on GitHub
+ */
+async function runValidateConfig(config: Config, configPath: string, warnings: string[]): Promise<void> {
+  console.log(`\n🔎 Validating ${configPath}\n`);
+  console.log('  ✓ Schema');
+
+  await loadBusinessCalendar(config.businessCalendar);
+  console.log('  ✓ Business calendar');
+
+  resolveResponseEvents(config.responseRules);
+  console.log('  ✓ Response rules');
+
+  const notifiers = createNotifiers(config);
+  console.log(`  ✓ Notifiers: ${notifiers.length > 0 ? notifiers.map(notifier => notifier.name).join(', ') : 'none'}`);
+
+  console.log('\n🔗 Checking GitHub resources...\n');
+  const octokit = createOctokit(config);
+  const checks = await checkConfigAgainstGitHub(config, octokit);
+
+  if (getOrganizations(config).some(org => org.repositoryDiscovery || org.excludeRepositories?.length)) {
+    const label = 'Repository rules';
+    try {
+      const { repositories } = await resolveRepositories(config, new GitHubAnalytics(config, { octokit }));
+      checks.push({ label: `${label}: ${repositories.length} repositories (${repositories.join(', ')})`, ok: true });
+    } catch (error: any) {
+      checks.push({ label, ok: false, detail: error.message });
+    }
+  }
+  for (const check of checks) {
+    console.log(check.ok ? `  ✓ ${check.label}` : `  ❌ ${check.label}: ${check.detail}`);
+  }
+
+  const failed = checks.filter(check => !check.ok).length;
+  if (failed > 0) {
+    console.error(`\n❌ ${failed} problem(s) found in ${configPath}`);
+    process.exit(1);
+  }
+
+  const warningNote = warnings.length > 0 ? ` with ${warnings.length} warning(s)` : '';
+  console.log(`\n✅ Configuration is valid${warningNote}\n`);
+}
+
+/**
+ * Print an organization's repository and team settings
+ */
+function logOrganizationSettings(org: OrganizationConfig, indent: string): void {
+  const repositories = org.repositories ?? [];
+  const excludeTeams = org.excludeTeams ?? [];
+
+  console.log(`${indent}Repositories: ${repositories.length > 0 ? repositories.join(', ') : 'none listed'}`);
+  if (org.repositoryDiscovery) {
+    console.log(`${indent}Repository discovery: ${describeRepositoryDiscovery(org.repositoryDiscovery)}`);
+  }
+  if (org.excludeRepositories?.length) {
+    console.log(`${indent}Exclude Repositories: ${org.excludeRepositories.join(', ')}`);
+  }
+  console.log(`${indent}Exclude Teams: ${excludeTeams.length > 0 ? excludeTeams.join(', ') : 'none'}`);
+}
 
 async function main() {
   try {
     // Parse command line arguments
-    const { startDate, endDate, configPath } = parseArgs();
+    const { command, startDate: startDateArg, endDate: endDateArg, configPath, useCache, refreshCache, fetcher: fetcherArg, recordDir, replayDir, format, outputPath } = parseArgs();
 
     console.log('🚀 GitHub Response Time Tracker\n');
     
     // Load configuration
-    console.log(`Loading configuration from ${configPath}...`);
-    const configFile = Bun.file(configPath);
-    
-    if (!(await configFile.exists())) {
-      console.error(`❌ Error: Configuration file not found at ${configPath}`);
-      console.error('Please create a config.json file with organization, repositories, excludeTeams, and excludeBots');
+    const resolvedConfigPath = await findConfigFile(configPath);
+    console.log(`Loading configuration from ${resolvedConfigPath}...`);
+
+    if (!(await Bun.file(resolvedConfigPath).exists())) {
+      console.error(`❌ Error: Configuration file not found at ${resolvedConfigPath}`);
+      console.error('Please create a config.json or config.yaml file with organization, repositories, excludeTeams, and excludeBots');
+      process.exit(1);
+    }
+
+    let loaded;
+    try {
+      loaded = await loadConfig(resolvedConfigPath);
+    } catch (error: any) {
+      console.error(`❌ Error: ${error.message}`);
       process.exit(1);
     }
 
-    const config: Config = await configFile.json();
+    const { config, warnings } = loaded;
+    for (const warning of warnings) {
+      console.warn(`⚠️  ${warning}`);
+    }
 
     // Get GitHub token from environment variable or config
     const githubToken = process.env.GH_TOKEN || config.githubToken;
     
-    if (!githubToken) {
-      console.error('❌ Error: GitHub token not found. Set GH_TOKEN environment variable or include githubToken in config.json');
+    // No token is needed when replaying recorded fixtures or reading history
+    if (!githubToken && !replayDir && command !== 'history') {
+      console.error('❌ Error: GitHub token not found. Set GH_TOKEN environment variable or include githubToken in the config file');
       process.exit(1);
     }
 
-    // Validate configuration
-    if (!config.organization || !config.repositories || config.repositories.length === 0) {
-      console.error('❌ Error: Invalid configuration. Please ensure organization and repositories are set.');
-      process.exit(1);
-    }
-    
     // Add token to config for downstream use
     config.githubToken = githubToken;
 
+    if (command === 'history') {
+      await runHistory(config);
+      return;
+    }
+
+    if (command === 'validate-config') {
+      await runValidateConfig(config, resolvedConfigPath, warnings);
+      return;
+    }
+
     // Set default values
-    const excludeTeams = config.excludeTeams || [];
+    const organizations = getOrganizations(config);
+    const organizationLabel = getOrganizationLabel(config);
     const excludeBots = config.excludeBots || [];
+    const cacheDir = config.cacheDir || '.cache';
+    const fetcher = fetcherArg || config.fetcher || 'rest';
+    const historyFile = config.historyFile || '.history.jsonl';
 
     console.log(`✓ Configuration loaded`);
-    console.log(`  Organization: ${config.organization}`);
-    console.log(`  Repositories: ${config.repositories.join(', ')}`);
-    console.log(`  Exclude Teams: ${excludeTeams.length > 0 ? excludeTeams.join(', ') : 'none'}`);
+    for (const org of organizations) {
+      console.log(`  Organization: ${org.organization}`);
+      logOrganizationSettings(org, organizations.length > 1 ? '    ' : '  ');
+    }
     console.log(`  Exclude Bots: ${excludeBots.length > 0 ? excludeBots.join(', ') : 'none'}`);
-    console.log(`  Date range: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
+    console.log(`  Filters: ${describeItemFilters(config.filters)}`);
+    const exclusionRules = resolveExclusionRules(config.exclusionRules);
+    console.log(`  Exclusion rules: ${describeExclusionRules(exclusionRules)}`);
+    if (config.labelGroups) {
+      console.log(`  Label groups: ${Object.keys(config.labelGroups).join(', ')}`);
+    }
+    const calendar = await loadBusinessCalendar(config.businessCalendar);
+    const { startDate, endDate } = resolveDateRange(calendar, startDateArg, endDateArg);
+    console.log(`  Date range: ${formatDate(startDate, calendar.timezone)} to ${formatDate(endDate, calendar.timezone)}`);
+    console.log(`  Business calendar: ${describeCalendar(calendar)}`);
+    console.log(`  Fetcher: ${fetcher}`);
+    console.log(`  Rate limits: ${describeRateLimits(config.rateLimits)}`);
+    const responseEvents = Array.from(resolveResponseEvents(config.responseRules));
+    console.log(`  Counted as response: ${responseEvents.join(', ')}`);
+    const notifiers = createNotifiers(config);
+    console.log(`  Notifiers: ${notifiers.length > 0 ? notifiers.map(notifier => notifier.name).join(', ') : 'none'}`);
 
-    // Initialize GitHub Analytics
-    const analytics = new GitHubAnalytics(config);
+    // Initialize the data source
+    let analytics: DataSource;
+    if (replayDir) {
+      console.log(`  Replaying recorded responses from ${replayDir} (offline, cache disabled)`);
+      analytics = createReplayDataSource(config, replayDir, { calendar, fetcher });
+    } else if (recordDir) {
+      console.log(`  Recording API responses to ${recordDir} (cache disabled)`);
+      analytics = createRecordingDataSource(config, recordDir, { calendar, fetcher });
+    } else {
+      const cacheNote = refreshCache ? ' (refreshing)' : fetcher === 'graphql' ? ' (contributor histories only with the GraphQL fetcher)' : '';
+      console.log(`  Cache: ${useCache ? `${cacheDir}${cacheNote}` : 'disabled'}`);
+      const fingerprint = `${[...responseEvents].sort().join(',')};${JSON.stringify(exclusionRules)}`;
+      const cache = useCache ? new ResponseCache(cacheDir, organizations[0].organization, refreshCache, fingerprint) : null;
+      analytics = new GitHubAnalytics(config, { cache, calendar, fetcher });
+    }
 
     // Check rate limit before starting
     await analytics.checkRateLimit();
     console.log('');
 
-    // Fetch organization members (cached for entire run)
+    // Fetch members of all organizations (cached for entire run)
     await analytics.fetchOrgMembers();
     console.log('');
 
     // Build exclude list from teams and bots
-    await analytics.buildExcludeList(excludeTeams, excludeBots);
+    await analytics.buildExcludeList(getExcludeTeams(config), excludeBots);
+
+    // Resolve the explicit list and discovery rules into the repositories to track
+    const { repositories, listed, discovered, excluded } = await resolveRepositories(config, analytics);
+    console.log(
+      `📦 Tracking ${repositories.length} repositories ` +
+      `(${listed} listed, ${discovered} discovered, ${excluded.length} excluded):`
+    );
+    console.log(`  ${repositories.join(', ')}\n`);
+
+    if (command === 'backlog' || command === 'watch') {
+      if (command === 'backlog') {
+        await runBacklog(analytics, repositories, calendar, notifiers);
+      } else {
+        await runWatch(analytics, config, repositories, calendar, notifiers);
+      }
+      await analytics.checkRateLimit();
+      return;
+    }
 
     // Fetch all data
     console.log('Fetching issues and pull requests...\n');
     const data = await analytics.fetchAllData(
-      config.repositories,
+      repositories,
       startDate,
       endDate
     );
 
+    const exclusions = summarizeExclusions(analytics.getExcludedItems());
+    displayExclusionSummary(exclusions);
+
     if (data.length === 0) {
       console.log('⚠️  No issues or pull requests found in the specified date range.');
       process.exit(0);
     }
 
-    console.log(`\n✓ Total items analyzed: ${data.length}`);
+    console.log(`\n✓ Total items analyzed: ${data.length}\n`);
+
+    // Look up whether each author contributed to the organizations before
+    const contributorHistory = await analytics.fetchContributorHistory(listAuthors(data));
 
     // Calculate metrics
-    const metrics = calculateOverallMetrics(data);
-    const weeklySummary = calculateWeeklySummary(data);
+    const metrics = calculateOverallMetrics(data, calendar);
+    const weeklySummary = calculateWeeklySummary(data, calendar);
+    const repositoryMetrics = calculateRepositoryMetrics(data, calendar);
+    const labelGroupMetrics = calculateLabelGroupMetrics(data, config.labelGroups, calendar);
+    const responderReport = calculateResponderReport(data);
+    const contributorReport = calculateContributorReport(data, contributorHistory);
+
+    // Compare with stored history and record this run
+    const history = new HistoryStore(historyFile);
+    await history.load();
+    const snapshot: HistorySnapshot = {
+      recordedAt: new Date(),
+      organization: organizationLabel,
+      startDate,
+      endDate,
+      overall: metrics,
+      weeklySummary,
+    };
+    const series = mergeWeeklySeries([...history.getSnapshots(organizationLabel), snapshot]);
+    const trends = calculateWeeklyTrends(series, weeklySummary);
 
     // Display console output
-    displayConsoleOutput(metrics, weeklySummary, startDate, endDate);
+    displayConsoleOutput(metrics, weeklySummary, startDate, endDate, repositoryMetrics, trends, labelGroupMetrics, calendar.timezone);
+    displayResponderReport(responderReport);
+    displayContributorReport(contributorReport, calendar.timezone);
 
-    // Save CSV
-    const csvPath = await saveCSV(data);
-    displaySummary(csvPath);
+    // Save report files
+    const report: ReportData = {
+      startDate,
+      endDate,
+      timezone: calendar.timezone,
+      trackedRepositories: repositories,
+      items: data,
+      metrics,
+      weeklySummary,
+      repositoryMetrics,
+      labelGroupMetrics,
+      responderReport,
+      contributorReport,
+      trends,
+      exclusions,
+    };
+    if (format === 'json') {
+      const jsonPath = await saveJSONReport(report, { ...config, fetcher }, outputPath);
+      displaySummary([{ label: 'JSON report', path: jsonPath }]);
+    } else if (format === 'html') {
+      const htmlPath = await saveHTMLReport(report, organizationLabel, outputPath);
+      displaySummary([{ label: 'HTML report', path: htmlPath }]);
+    } else if (format === 'markdown') {
+      const markdownPath = await saveMarkdownReport(report, organizationLabel, outputPath);
+      displaySummary([{ label: 'Markdown report', path: markdownPath }]);
+    } else {
+      const csvPath = await saveCSV(data, calendar.timezone, outputPath);
+      const summaryCsvPath = await saveSummaryCSV(weeklySummary, repositoryMetrics, labelGroupMetrics, calendar.timezone);
+      const responderCsvPath = await saveResponderCSV(responderReport);
+      displaySummary([
+        { label: 'CSV report', path: csvPath },
+        { label: 'Summary CSV', path: summaryCsvPath },
+        { label: 'Responder CSV', path: responderCsvPath },
+      ]);
+    }
 
-    // Post to Slack if credentials are provided
-    const slackBotToken = process.env.SLACK_BOT_TOKEN;
-    const slackChannelId = process.env.SLACK_CHANNEL_ID;
-    const slackWebhookUrl = process.env.SLACK_WEBHOOK_URL;
-    
-    // Prefer Bot Token + Channel ID (supports file uploads in threads)
-    if (slackBotToken && slackChannelId) {
-      console.log('📤 Posting report to Slack with CSV attachment...');
-      try {
-        await postWeeklySummaryWithFileToSlack(
-          slackBotToken,
-          slackChannelId,
-          weeklySummary,
-          data,
-          startDate,
-          endDate
-        );
-        console.log('✅ Successfully posted to Slack with CSV file!\n');
-      } catch (error: any) {
-        console.error(`❌ Failed to post to Slack: ${error.message}\n`);
-      }
-    } else if (slackWebhookUrl) {
-      // Fallback to webhook (no file upload support)
-      console.log('📤 Posting report to Slack...');
-      try {
-        const postFullReport = process.env.SLACK_POST_FULL_REPORT === 'true';
-        
-        if (postFullReport) {
-          await postFullReportToSlack(slackWebhookUrl, metrics, weeklySummary, startDate, endDate);
-        } else {
-          await postWeeklySummaryToSlack(slackWebhookUrl, weeklySummary, startDate, endDate);
-        }
-        
-        console.log('✅ Successfully posted to Slack!\n');
-      } catch (error: any) {
-        console.error(`❌ Failed to post to Slack: ${error.message}\n`);
-      }
+    // Show the report on the GitHub Actions run page
+    const stepSummaryPath = await appendToStepSummary(generateMarkdownReport(report, organizationLabel));
+    if (stepSummaryPath) {
+      console.log('📝 Report added to the GitHub Actions job summary\n');
+    }
+
+    // Replayed runs reproduce old data and are not added to the history
+    if (replayDir) {
+      console.log('📈 Replay run: history not updated\n');
+    } else {
+      await history.append(snapshot);
+      console.log(`📈 History snapshot appended to ${historyFile}\n`);
+    }
+
+    // Send the report to every configured notifier
+    if (notifiers.length > 0) {
+      await notifyAll(notifiers, 'report', notifier => notifier.sendReport(report));
+      console.log('');
     }
 
     // Check rate limit after completion
@@ -157,18 +449,41 @@ if (process.argv.includes('--help') || process.argv.includes('-h')) {
 GitHub Response Time Tracker
 
 Usage:
-  bun run index.ts [options]
+  bun run index.ts [command] [options]
+
+Commands:
+  report                     Weekly response time report (default)
+  backlog                    List open external issues/PRs without an org response, grouped by age
+  watch                      Alert configured notifiers on unanswered items close to the SLA (run hourly)
+  history                    Print the stored weekly time series with week-over-week trends
+  validate-config            Check the config file, that its organizations, repositories and teams exist,
+                             and which repositories the discovery rules match
 
 Options:
   --start-date YYYY-MM-DD    Start date for analysis (default: 4 complete weeks ending last Sunday)
   --end-date YYYY-MM-DD      End date for analysis (default: last Sunday)
-  --config PATH              Path to config file (default: ./config.json)
+  --config PATH              Path to a JSON or YAML config file (default: config.json, config.yaml or config.yml)
+  --no-cache                 Don't read or write the local response cache
+  --refresh                  Ignore cached items and re-fetch everything (cache is rewritten)
+  --fetcher rest|graphql     API used to fetch issues and PRs (default: rest, or "fetcher" in config)
+  --record DIR               Save every raw API response to a fixture directory
+  --replay DIR               Rebuild the report from recorded fixtures (no token or network needed)
+  --format FORMAT            Report file format: csv, json, html or markdown (default: csv)
+  --output PATH              Report file path (default: response-times.csv, .json, .html or .md)
   --help, -h                 Show this help message
 
 Examples:
   bun run index.ts
   bun run index.ts --start-date 2024-01-01 --end-date 2024-03-31
   bun run index.ts --config ./my-config.json
+  bun run index.ts --format json --output ./report.json
+  bun run index.ts --format html --output ./report.html
+  bun run index.ts backlog
+  bun run index.ts watch
+  bun run index.ts history
+  bun run index.ts validate-config --config ./config.yaml
+  bun run index.ts --start-date 2024-01-01 --end-date 2024-01-28 --record ./fixtures/2024-01
+  bun run index.ts --start-date 2024-01-01 --end-date 2024-01-28 --replay ./fixtures/2024-01
 
 Configuration:
   Create a config.json file with:
@@ -176,15 +491,54 @@ Configuration:
     "githubToken": "your_github_token",
     "organization": "your-org-name",
     "repositories": ["repo1", "repo2"],
+    "repositoryDiscovery": { "visibility": "public", "topics": ["framework"], "include": ["flow*"] },
+    "excludeRepositories": ["*-demo"],
     "excludeTeams": ["team1", "team2"],
-    "excludeBots": ["bot-user-1", "bot-user-2"]
+    "excludeBots": ["bot-user-1", "bot-user-2"],
+    "cacheDir": ".cache",
+    "fetcher": "rest",
+    "rateLimits": { "maxConcurrentRequests": 4, "maxRetries": 5, "maxWaitMinutes": 60 },
+    "historyFile": ".history.jsonl",
+    "targetPercentage": 80,
+    "labelGroups": { "bug": ["bug"], "enhancement": ["enhancement"], "question": ["question"] },
+    "filters": { "excludeLabels": ["invalid", "spam"], "excludeTitle": "^WIP\\\\b" },
+    "exclusionRules": { "draftPullRequests": "ready-for-review", "locked": true, "transferredIssues": true, "spam": true },
+    "watch": { "warnAfterHours": 18, "stateFile": ".watch-state.json" },
+    "notifiers": [
+      { "type": "slack", "template": "full" },
+      { "type": "teams" },
+      { "type": "webhook", "webhookUrl": "https://example.com/hook", "headers": { "Authorization": "Bearer ..." } },
+      { "type": "email", "smtp": { "host": "smtp.example.com", "port": 587, "tls": "starttls", "username": "bot@example.com" },
+        "from": "bot@example.com", "to": ["leads@example.com"] }
+    ],
+    "responseRules": {
+      "events": ["commented", "reviewed", "review_commented", "merged", "labeled", "assigned"]
+    },
+    "businessCalendar": {
+      "timezone": "Europe/Helsinki",
+      "workingHours": { "start": "09:00", "end": "17:00" },
+      "holidays": ["2024-12-24", "2024-12-25"],
+      "holidaysIcsFile": "./holidays.ics",
+      "slaHours": 8
+    }
   }
 
+  To track several organizations, replace organization, repositories, repositoryDiscovery,
+  excludeRepositories and excludeTeams with a list of organizations that each set them:
+    "organizations": [
+      { "organization": "org1", "repositories": ["repo1"], "excludeTeams": ["team1"] },
+      { "organization": "org2", "repositoryDiscovery": { "topics": ["framework"] } }
+    ]
+
+  The same structure can be written as config.yaml. String values can use environment
+  variables as \${NAME} (e.g. "webhookUrl": "\${TEAMS_WEBHOOK_URL}").
+
   Get a GitHub token from: https://github.com/settings/tokens
   Token needs 'repo' and 'read:org' permissions.
 
 Environment Variables:
   GH_TOKEN                   GitHub personal access token (alternative to config)
+  GITHUB_STEP_SUMMARY        Set by GitHub Actions; the Markdown report is appended to the job summary
   
   Slack Integration (Bot Token - recommended, supports file uploads):
     SLACK_BOT_TOKEN          Slack Bot OAuth token (xoxb-...)
@@ -192,7 +546,14 @@ Environment Variables:
   
   Slack Integration (Webhook - legacy, no file upload support):
     SLACK_WEBHOOK_URL        Slack incoming webhook URL
-    SLACK_POST_FULL_REPORT   Set to 'true' to post full report (default: weekly summary only)
+    SLACK_POST_FULL_REPORT   Set to 'true' to post full report (default: weekly summary only).
+                             Only used when the config has no "notifiers" section
+
+  Other notifiers (used by "notifiers" entries that leave these out):
+    TEAMS_WEBHOOK_URL        Microsoft Teams incoming webhook URL
+    DISCORD_WEBHOOK_URL      Discord webhook URL
+    SMTP_USERNAME            SMTP username for email notifiers without smtp.username
+    SMTP_PASSWORD            SMTP password for email notifiers without smtp.password
 
   Note: Bot token requires 'chat:write' and 'files:write' scopes.
         Create a Slack app at https://api.slack.com/apps
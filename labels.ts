@@ -0,0 +1,46 @@
+import type { ItemFilters } from './types.ts';
+
+/**
+ * Label group for items that have no label of any configured group
+ */
+export const UNGROUPED_LABEL_GROUP = '(other)';
+
+/**
+ * Check whether an item has at least one of the given labels, ignoring case like GitHub does
+ */
+export function hasAnyLabel(labels: string[], wanted: string[]): boolean {
+  const wantedNames = new Set(wanted.map(label => label.toLowerCase()));
+  return labels.some(label => wantedNames.has(label.toLowerCase()));
+}
+
+/**
+ * Build a predicate for the configured label and title filters.
+ * Title patterns are case-insensitive regular expressions; without filters every item is kept.
+ */
+export function createItemFilter(filters: ItemFilters = {}): (title: string, labels: string[]) => boolean {
+  const includeTitle = filters.includeTitle ? new RegExp(filters.includeTitle, 'i') : null;
+  const excludeTitle = filters.excludeTitle ? new RegExp(filters.excludeTitle, 'i') : null;
+  const includeLabels = filters.includeLabels ?? [];
+  const excludeLabels = filters.excludeLabels ?? [];
+
+  return (title, labels) => {
+    if (excludeLabels.length > 0 && hasAnyLabel(labels, excludeLabels)) return false;
+    if (excludeTitle?.test(title)) return false;
+    if (includeLabels.length > 0 && !hasAnyLabel(labels, includeLabels)) return false;
+    if (includeTitle && !includeTitle.test(title)) return false;
+    return true;
+  };
+}
+
+/**
+ * Describe the filters in one line for the startup log
+ */
+export function describeItemFilters(filters?: ItemFilters): string {
+  const parts: string[] = [];
+  if (filters?.includeLabels?.length) parts.push(`labels ${filters.includeLabels.join(' or ')}`);
+  if (filters?.excludeLabels?.length) parts.push(`not labeled ${filters.excludeLabels.join(' or ')}`);
+  if (filters?.includeTitle) parts.push(`title matching /${filters.includeTitle}/i`);
+  if (filters?.excludeTitle) parts.push(`title not matching /${filters.excludeTitle}/i`);
+
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'bun:test';
+import { generateMarkdownReport } from './markdown.ts';
+import { testItem, testReport } from './test-data.ts';
+
+describe('generateMarkdownReport', () => {
+  test('breaks the metrics down by org/repo', () => {
+    const report = testReport([
+      testItem({ repository: 'acme/api', number: 1 }),
+      testItem({ repository: 'other/web', number: 2, type: 'pr', respondedWithinOneDay: false, responseTimeHours: 30 }),
+    ]);
+
+    const markdown = generateMarkdownReport(report, 'acme, other');
+
+    expect(markdown).toContain([
+      '## 📦 By Repository',
+      '',
+      '| Repository | Issues | PRs | Within 1 Day | Median (h) | P90 (h) |',
+      '| --- | ---: | ---: | ---: | ---: | ---: |',
+      '| acme/api | 1 | 0 | 100.0% | 1.00 | 1.00 |',
+      '| other/web | 0 | 1 | 0.0% | 30.00 | 30.00 |',
+    ].join('\n'));
+  });
+});
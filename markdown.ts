@@ -0,0 +1,199 @@
+import { appendFile } from 'node:fs/promises';
+import type { IssueData, LabelGroupMetrics, OverallMetrics, ReportData, RepositoryMetrics, WeeklySummary, WeeklyTrend } from './types.ts';
+import { formatDate } from './utils.ts';
+import { formatDelta, formatHours, getOneDayPercentage } from './output.ts';
+import { TRAILING_WEEKS } from './history.ts';
+import { DEFAULT_CALENDAR } from './calendar.ts';
+
+/**
+ * Escape text for use inside a GitHub-flavored Markdown table cell
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+}
+
+function table(headers: string[], rows: string[][], alignRight: number[] = []): string[] {
+  const separator = headers.map((_, index) => alignRight.includes(index) ? '---:' : '---');
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${separator.join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+/**
+ * Format overall metrics as Markdown tables
+ */
+export function formatOverallMetricsMarkdown(metrics: OverallMetrics): string[] {
+  const lines = [
+    `**${getOneDayPercentage(metrics).toFixed(1)}%** of ${metrics.totalIssues + metrics.totalPRs} issues and PRs got a response within 1 business day.`,
+    '',
+    ...table(['', 'Issues', 'Pull Requests'], [
+      ['Total', metrics.totalIssues.toString(), metrics.totalPRs.toString()],
+      ['Responded', `${metrics.issuesResponded} (${metrics.issueResponseRate.toFixed(1)}%)`, `${metrics.prsResponded} (${metrics.prResponseRate.toFixed(1)}%)`],
+      ['Within 1 Day', `${metrics.issuesWithinOneDay} (${metrics.issueOneDayPercentage.toFixed(1)}%)`, `${metrics.prsWithinOneDay} (${metrics.prOneDayPercentage.toFixed(1)}%)`],
+      ['Median Response (h)', formatHours(metrics.issueResponseTimes.median), formatHours(metrics.prResponseTimes.median)],
+      ['P90 Response (h)', formatHours(metrics.issueResponseTimes.p90), formatHours(metrics.prResponseTimes.p90)],
+    ], [1, 2]),
+  ];
+
+  const lifecycle = metrics.lifecycle;
+  lines.push(
+    '',
+    `Open: ${lifecycle.open} · Closed: ${lifecycle.closed} · Merged: ${lifecycle.merged} · ` +
+    `PR merge rate: ${lifecycle.prMergeRate.toFixed(1)}% · ` +
+    `Median time to close: ${formatHours(lifecycle.medianTimeToCloseHours)} h · ` +
+    `Median time to merge: ${formatHours(lifecycle.medianTimeToMergeHours)} h`
+  );
+
+  return lines;
+}
+
+/**
+ * Format the weekly summary as a Markdown table, with trend deltas when available
+ */
+export function formatWeeklySummaryMarkdown(
+  weeklySummary: WeeklySummary[],
+  trends: WeeklyTrend[] = [],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  const headers = ['Week Starting', 'Total', 'Within 1 Day', 'Percentage', 'Median (h)', 'P90 (h)'];
+  if (trends.length > 0) headers.push('vs Prev Week', `vs ${TRAILING_WEEKS}w Avg`);
+
+  const rows = weeklySummary.map(week => {
+    const row = [
+      formatDate(week.weekStarting, timezone),
+      week.totalIssues.toString(),
+      week.respondedWithinOneDay.toString(),
+      `${week.percentage.toFixed(1)}%`,
+      formatHours(week.responseTimes.median),
+      formatHours(week.responseTimes.p90),
+    ];
+    if (trends.length > 0) {
+      const trend = trends.find(entry => entry.weekStarting.getTime() === week.weekStarting.getTime());
+      row.push(
+        formatDelta(trend ? trend.withinOneDayPercentage.previousDelta : null, 'pp'),
+        formatDelta(trend ? trend.withinOneDayPercentage.trailingAverageDelta : null, 'pp')
+      );
+    }
+    return row;
+  });
+
+  return table(headers, rows, [1, 2, 3, 4, 5, 6, 7]);
+}
+
+/**
+ * Format overall metrics per repository or label group as a Markdown table
+ */
+function formatBreakdownMarkdown(nameHeader: string, breakdown: Array<{ name: string; metrics: OverallMetrics }>): string[] {
+  const rows = breakdown.map(({ name, metrics }) => [
+    escapeCell(name),
+    metrics.totalIssues.toString(),
+    metrics.totalPRs.toString(),
+    `${getOneDayPercentage(metrics).toFixed(1)}%`,
+    formatHours(metrics.medianResponseTimeHours),
+    formatHours(metrics.p90ResponseTimeHours),
+  ]);
+
+  return table([nameHeader, 'Issues', 'PRs', 'Within 1 Day', 'Median (h)', 'P90 (h)'], rows, [1, 2, 3, 4, 5]);
+}
+
+/**
+ * Format overall metrics per repository as a Markdown table
+ */
+export function formatRepositoriesMarkdown(repositoryMetrics: RepositoryMetrics[]): string[] {
+  return formatBreakdownMarkdown('Repository', repositoryMetrics.map(repo => ({ ...repo, name: repo.repository })));
+}
+
+/**
+ * Format overall metrics per label group as a Markdown table
+ */
+export function formatLabelGroupsMarkdown(labelGroupMetrics: LabelGroupMetrics[]): string[] {
+  return formatBreakdownMarkdown('Label Group', labelGroupMetrics.map(group => ({ ...group, name: group.group })));
+}
+
+/**
+ * Format items not responded to within one business day as a Markdown table (oldest first)
+ */
+export function formatMissedItemsMarkdown(
+  items: IssueData[],
+  timezone: string = DEFAULT_CALENDAR.timezone,
+  maxItems: number = 100
+): string[] {
+  const missed = items
+    .filter(item => !item.respondedWithinOneDay)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  if (missed.length === 0) return ['Every item got a response within 1 business day. 🎉'];
+
+  const rows = missed.slice(0, maxItems).map(item => [
+    escapeCell(item.repository),
+    `[#${item.number}](${item.url}) ${escapeCell(item.title)}`,
+    item.type === 'pr' ? 'PR' : 'Issue',
+    formatDate(item.createdAt, timezone),
+    item.responseTimeHours !== null ? item.responseTimeHours.toFixed(1) : 'never',
+    item.respondedBy ? escapeCell(item.respondedBy) : '-',
+  ]);
+
+  const lines = table(['Repository', 'Item', 'Type', 'Created', 'Response (h)', 'Responded By'], rows, [4]);
+  if (missed.length > maxItems) {
+    lines.push('', `_... and ${missed.length - maxItems} more_`);
+  }
+
+  return lines;
+}
+
+/**
+ * Generate a GitHub-flavored Markdown report (overall metrics, weekly summary, repositories, label groups and missed items)
+ */
+export function generateMarkdownReport(report: ReportData, organization: string): string {
+  const missedCount = report.items.filter(item => !item.respondedWithinOneDay).length;
+
+  return [
+    '# GitHub Response Time Report',
+    '',
+    `${organization} · ${formatDate(report.startDate, report.timezone)} to ${formatDate(report.endDate, report.timezone)} · response times in working hours`,
+    '',
+    '## 📊 Overall Metrics',
+    '',
+    ...formatOverallMetricsMarkdown(report.metrics),
+    '',
+    '## 📅 Weekly Summary - Responded Within 1 Business Day',
+    '',
+    ...formatWeeklySummaryMarkdown(report.weeklySummary, report.trends, report.timezone),
+    '',
+    ...(report.repositoryMetrics.length > 0
+      ? ['## 📦 By Repository', '', ...formatRepositoriesMarkdown(report.repositoryMetrics), '']
+      : []),
+    ...(report.labelGroupMetrics.length > 0
+      ? ['## 🏷️ By Label Group', '', ...formatLabelGroupsMarkdown(report.labelGroupMetrics), '']
+      : []),
+    `## ⚠️ Missed Items (${missedCount}) - No Response Within 1 Business Day`,
+    '',
+    ...formatMissedItemsMarkdown(report.items, report.timezone),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Save the Markdown report to file
+ */
+export async function saveMarkdownReport(report: ReportData, organization: string, filename?: string): Promise<string> {
+  const filepath = filename || 'response-times.md';
+
+  await Bun.write(filepath, generateMarkdownReport(report, organization));
+
+  return filepath;
+}
+
+/**
+ * Append Markdown to the GitHub Actions job summary when running in Actions.
+ * Returns the summary file path, or null when GITHUB_STEP_SUMMARY is not set.
+ */
+export async function appendToStepSummary(markdown: string): Promise<string | null> {
+  const summaryPath = process.env.GITHUB_STEP_SUMMARY;
+  if (!summaryPath) return null;
+
+  await appendFile(summaryPath, markdown + '\n');
+  return summaryPath;
+}
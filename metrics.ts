@@ -1,10 +1,58 @@
-import type { IssueData, OverallMetrics, WeeklySummary } from './types.ts';
-import { calculateStats } from './utils.ts';
+import type { BusinessCalendar, IssueData, LabelGroupMetrics, LifecycleMetrics, OverallMetrics, RepositoryMetrics, ResponseTimeStats, WeeklySummary } from './types.ts';
+import { calculateStats, calculateHistogram } from './utils.ts';
+import { hasAnyLabel, UNGROUPED_LABEL_GROUP } from './labels.ts';
+import { DEFAULT_CALENDAR } from './calendar.ts';
+
+/**
+ * Calculate response time statistics and histogram (buckets sized to the calendar's working day) for a group of items
+ */
+export function calculateResponseTimeStats(
+  data: IssueData[],
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): ResponseTimeStats {
+  const responseTimes = data
+    .filter(d => d.responseTimeHours !== null)
+    .map(d => d.responseTimeHours as number);
+
+  return {
+    ...calculateStats(responseTimes),
+    histogram: calculateHistogram(data.map(d => d.responseTimeHours), calendar),
+  };
+}
+
+/**
+ * Calculate time to close, time to merge and merge rate for a group of items
+ */
+export function calculateLifecycleMetrics(data: IssueData[]): LifecycleMetrics {
+  const prs = data.filter(d => d.type === 'pr');
+  const merged = data.filter(d => d.state === 'merged').length;
+
+  const closeStats = calculateStats(
+    data.filter(d => d.timeToCloseHours !== null).map(d => d.timeToCloseHours as number)
+  );
+  const mergeStats = calculateStats(
+    data.filter(d => d.timeToMergeHours !== null).map(d => d.timeToMergeHours as number)
+  );
+
+  return {
+    open: data.filter(d => d.state === 'open').length,
+    closed: data.filter(d => d.state === 'closed').length,
+    merged,
+    prMergeRate: prs.length > 0 ? (merged / prs.length) * 100 : 0,
+    medianTimeToCloseHours: closeStats.median,
+    p90TimeToCloseHours: closeStats.p90,
+    medianTimeToMergeHours: mergeStats.median,
+    p90TimeToMergeHours: mergeStats.p90,
+  };
+}
 
 /**
  * Calculate overall metrics from issue data
  */
-export function calculateOverallMetrics(data: IssueData[]): OverallMetrics {
+export function calculateOverallMetrics(
+  data: IssueData[],
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): OverallMetrics {
   const issues = data.filter(d => d.type === 'issue');
   const prs = data.filter(d => d.type === 'pr');
 
@@ -21,11 +69,7 @@ export function calculateOverallMetrics(data: IssueData[]): OverallMetrics {
   const prOneDayPercentage = prs.length > 0 ? (prsWithinOneDay / prs.length) * 100 : 0;
 
   // Calculate response time statistics for items that have responses
-  const responseTimes = data
-    .filter(d => d.responseTimeHours !== null)
-    .map(d => d.responseTimeHours as number);
-
-  const stats = calculateStats(responseTimes);
+  const stats = calculateResponseTimeStats(data, calendar);
 
   return {
     totalIssues: issues.length,
@@ -42,25 +86,36 @@ export function calculateOverallMetrics(data: IssueData[]): OverallMetrics {
     maxResponseTimeHours: stats.max,
     meanResponseTimeHours: stats.mean,
     medianResponseTimeHours: stats.median,
+    p75ResponseTimeHours: stats.p75,
+    p90ResponseTimeHours: stats.p90,
+    p95ResponseTimeHours: stats.p95,
+    responseTimeHistogram: stats.histogram,
+    issueResponseTimes: calculateResponseTimeStats(issues, calendar),
+    prResponseTimes: calculateResponseTimeStats(prs, calendar),
+    lifecycle: calculateLifecycleMetrics(data),
   };
 }
 
 /**
  * Calculate weekly summary of issues/PRs responded within one business day
  */
-export function calculateWeeklySummary(data: IssueData[]): WeeklySummary[] {
+export function calculateWeeklySummary(
+  data: IssueData[],
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): WeeklySummary[] {
   // Group by week
-  const weeklyMap = new Map<string, { total: number; withinOneDay: number }>();
+  const weeklyMap = new Map<string, { total: number; withinOneDay: number; items: IssueData[] }>();
 
   for (const item of data) {
     const weekKey = item.weekStarting.toISOString();
     
     if (!weeklyMap.has(weekKey)) {
-      weeklyMap.set(weekKey, { total: 0, withinOneDay: 0 });
+      weeklyMap.set(weekKey, { total: 0, withinOneDay: 0, items: [] });
     }
 
     const weekData = weeklyMap.get(weekKey)!;
     weekData.total++;
+    weekData.items.push(item);
     if (item.respondedWithinOneDay) {
       weekData.withinOneDay++;
     }
@@ -73,9 +128,75 @@ export function calculateWeeklySummary(data: IssueData[]): WeeklySummary[] {
       totalIssues: data.total,
       respondedWithinOneDay: data.withinOneDay,
       percentage: data.total > 0 ? (data.withinOneDay / data.total) * 100 : 0,
+      responseTimes: calculateResponseTimeStats(data.items, calendar),
+      issueResponseTimes: calculateResponseTimeStats(data.items.filter(d => d.type === 'issue'), calendar),
+      prResponseTimes: calculateResponseTimeStats(data.items.filter(d => d.type === 'pr'), calendar),
+      lifecycle: calculateLifecycleMetrics(data.items),
     }))
     .sort((a, b) => a.weekStarting.getTime() - b.weekStarting.getTime());
 
   return summaries;
 }
 
+
+/**
+ * Calculate overall metrics and weekly summary for each repository
+ * Repositories are returned in the order they first appear in the data
+ */
+export function calculateRepositoryMetrics(
+  data: IssueData[],
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): RepositoryMetrics[] {
+  const repoMap = new Map<string, IssueData[]>();
+
+  for (const item of data) {
+    if (!repoMap.has(item.repository)) {
+      repoMap.set(item.repository, []);
+    }
+    repoMap.get(item.repository)!.push(item);
+  }
+
+  return Array.from(repoMap.entries()).map(([repository, items]) => ({
+    repository,
+    metrics: calculateOverallMetrics(items, calendar),
+    weeklySummary: calculateWeeklySummary(items, calendar),
+  }));
+}
+
+/**
+ * Calculate overall metrics and weekly summary for each configured label group, in config order.
+ * An item counts in every group it has a label of; items in no group are collected in "(other)".
+ * Groups without items are left out.
+ */
+export function calculateLabelGroupMetrics(
+  data: IssueData[],
+  labelGroups: Record<string, string[]> = {},
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): LabelGroupMetrics[] {
+  const groups = Object.entries(labelGroups);
+  if (groups.length === 0) return [];
+
+  const groupItems = groups.map(([group, labels]) => ({
+    group,
+    items: data.filter(item => hasAnyLabel(item.labels, labels)),
+  }));
+  const grouped = new Set(groupItems.flatMap(({ items }) => items));
+  groupItems.push({ group: UNGROUPED_LABEL_GROUP, items: data.filter(item => !grouped.has(item)) });
+
+  return groupItems
+    .filter(({ items }) => items.length > 0)
+    .map(({ group, items }) => ({
+      group,
+      metrics: calculateOverallMetrics(items, calendar),
+      weeklySummary: calculateWeeklySummary(items, calendar),
+    }));
+}
+
+/**
+ * Find the week with the lowest percentage (earliest week wins ties)
+ */
+export function findWeakestWeek(weeklySummary: WeeklySummary[]): WeeklySummary | null {
+  return weeklySummary.reduce<WeeklySummary | null>((weakest, week) =>
+    weakest === null || week.percentage < weakest.percentage ? week : weakest
+  , null);
+}
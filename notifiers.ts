@@ -0,0 +1,105 @@
+import type { Config, Notifier, NotifierConfig, NotifierTemplate, NotifierType } from './types.ts';
+import { DEFAULT_TARGET_PERCENTAGE } from './output.ts';
+import { SlackNotifier } from './slack.ts';
+import { TeamsNotifier } from './teams.ts';
+import { DiscordNotifier } from './discord.ts';
+import { WebhookNotifier } from './webhook.ts';
+import { EmailNotifier } from './email.ts';
+
+/**
+ * Supported notifier types and templates
+ */
+export const NOTIFIER_TYPES: NotifierType[] = ['slack', 'teams', 'discord', 'webhook', 'email'];
+export const NOTIFIER_TEMPLATES: NotifierTemplate[] = ['summary', 'full'];
+
+/**
+ * Create a single notifier, filling in missing credentials from environment variables
+ */
+function createNotifier(notifierConfig: NotifierConfig, config: Config, targetPercentage: number): Notifier {
+  const template = notifierConfig.template || 'summary';
+  if (!NOTIFIER_TEMPLATES.includes(template)) {
+    throw new Error(`Unknown template "${template}". Available templates: ${NOTIFIER_TEMPLATES.join(', ')}`);
+  }
+
+  switch (notifierConfig.type) {
+    case 'slack':
+      return new SlackNotifier({
+        botToken: notifierConfig.botToken || process.env.SLACK_BOT_TOKEN,
+        channelId: notifierConfig.channelId || process.env.SLACK_CHANNEL_ID,
+        webhookUrl: notifierConfig.webhookUrl || process.env.SLACK_WEBHOOK_URL,
+      }, template, targetPercentage);
+    case 'teams': {
+      const webhookUrl = notifierConfig.webhookUrl || process.env.TEAMS_WEBHOOK_URL;
+      if (!webhookUrl) throw new Error('Teams notifier needs a webhookUrl or TEAMS_WEBHOOK_URL');
+      return new TeamsNotifier(webhookUrl, template, targetPercentage);
+    }
+    case 'discord': {
+      const webhookUrl = notifierConfig.webhookUrl || process.env.DISCORD_WEBHOOK_URL;
+      if (!webhookUrl) throw new Error('Discord notifier needs a webhookUrl or DISCORD_WEBHOOK_URL');
+      return new DiscordNotifier(webhookUrl, template, targetPercentage);
+    }
+    case 'webhook':
+      if (!notifierConfig.webhookUrl) throw new Error('Webhook notifier needs a webhookUrl');
+      return new WebhookNotifier(notifierConfig.webhookUrl, config, template, notifierConfig.headers);
+    case 'email':
+      if (!notifierConfig.smtp) throw new Error('Email notifier needs an smtp section');
+      return new EmailNotifier({
+        ...notifierConfig.smtp,
+        username: notifierConfig.smtp.username || process.env.SMTP_USERNAME,
+        password: notifierConfig.smtp.password || process.env.SMTP_PASSWORD,
+      }, notifierConfig.from || '', notifierConfig.to || [], template, targetPercentage);
+    default:
+      throw new Error(
+        `Unknown notifier type "${(notifierConfig as NotifierConfig).type}". Available types: ${NOTIFIER_TYPES.join(', ')}`
+      );
+  }
+}
+
+/**
+ * Create the notifiers configured in `notifiers`. Without that section, Slack is used when its
+ * environment variables are set (SLACK_POST_FULL_REPORT=true selects the full report).
+ */
+export function createNotifiers(config: Config): Notifier[] {
+  const targetPercentage = config.targetPercentage ?? DEFAULT_TARGET_PERCENTAGE;
+
+  if (!config.notifiers) {
+    const hasBot = process.env.SLACK_BOT_TOKEN && process.env.SLACK_CHANNEL_ID;
+    if (!hasBot && !process.env.SLACK_WEBHOOK_URL) return [];
+
+    const template = process.env.SLACK_POST_FULL_REPORT === 'true' ? 'full' : 'summary';
+    return [createNotifier({ type: 'slack', template }, config, targetPercentage)];
+  }
+
+  return config.notifiers.map((notifierConfig, index) => {
+    try {
+      return createNotifier(notifierConfig, config, targetPercentage);
+    } catch (error: any) {
+      throw new Error(`Invalid notifiers[${index}]: ${error.message}`);
+    }
+  });
+}
+
+/**
+ * Send something to every notifier, logging each outcome. A failing notifier doesn't stop the others.
+ * Returns the number of notifiers that succeeded.
+ */
+export async function notifyAll(
+  notifiers: Notifier[],
+  description: string,
+  send: (notifier: Notifier) => Promise<void>
+): Promise<number> {
+  let delivered = 0;
+
+  for (const notifier of notifiers) {
+    console.log(`📤 Posting ${description} to ${notifier.name}...`);
+    try {
+      await send(notifier);
+      delivered++;
+      console.log(`✅ Successfully posted ${description} to ${notifier.name}!`);
+    } catch (error: any) {
+      console.error(`❌ Failed to post to ${notifier.name}: ${error.message}`);
+    }
+  }
+
+  return delivered;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test';
+import { generateCSV } from './output.ts';
+import { testItem } from './test-data.ts';
+
+describe('generateCSV', () => {
+  test('keeps the original columns in place and appends the newer ones', () => {
+    const [header, row] = generateCSV([testItem({ labels: ['bug', 'needs "triage"'] })], 'UTC').split('\n');
+
+    expect(header.split(',')).toEqual([
+      'Repository',
+      'Type',
+      'Number',
+      'Title',
+      'Created At',
+      'First Response At',
+      'Response Time (hours)',
+      'Responded By',
+      'Reported By',
+      'Responded Within 1 Day',
+      'Week Starting',
+      'URL',
+      'State',
+      'Closed At',
+      'Closed By',
+      'Merged At',
+      'Time to Close (hours)',
+      'Time to Merge (hours)',
+      'Response Event',
+      'Labels',
+    ]);
+    expect(row).toEndWith(',N/A,N/A,commented,"bug; needs ""triage"""');
+  });
+});
@@ -1,10 +1,16 @@
-import type { IssueData, OverallMetrics, WeeklySummary } from './types.ts';
-import { formatDate } from './utils.ts';
+import type { BacklogReport, Config, ContributorGroupStats, ContributorReport, ExclusionCount, HistorySnapshot, IssueData, JsonReport, LabelGroupMetrics, OverallMetrics, ReportData, RepositoryMetrics, ResponderReport, ResponseTimeStats, Serialized, TrendDelta, WeeklySummary, WeeklyTrend } from './types.ts';
+import { formatDate, toZonedISOString } from './utils.ts';
+import { DEFAULT_CALENDAR } from './calendar.ts';
+import { findWeakestWeek } from './metrics.ts';
+import { TRAILING_WEEKS } from './history.ts';
+import { describeWorkloadConcentration } from './responders.ts';
+import { describeContributorRetention } from './contributors.ts';
+import { EXCLUSION_REASONS } from './exclusions.ts';
 
 /**
- * Generate CSV content from issue data
+ * Generate CSV content from issue data (week starts as dates in the given timezone)
  */
-export function generateCSV(data: IssueData[]): string {
+export function generateCSV(data: IssueData[], timezone: string = DEFAULT_CALENDAR.timezone): string {
   const headers = [
     'Repository',
     'Type',
@@ -18,6 +24,14 @@ export function generateCSV(data: IssueData[]): string {
     'Responded Within 1 Day',
     'Week Starting',
     'URL',
+    'State',
+    'Closed At',
+    'Closed By',
+    'Merged At',
+    'Time to Close (hours)',
+    'Time to Merge (hours)',
+    'Response Event',
+    'Labels',
   ];
 
   const rows = data.map(item => [
@@ -31,8 +45,16 @@ export function generateCSV(data: IssueData[]): string {
     item.respondedBy || 'N/A',
     item.reportedBy || 'N/A',
     item.respondedWithinOneDay ? 'Yes' : 'No',
-    formatDate(item.weekStarting),
+    formatDate(item.weekStarting, timezone),
     item.url,
+    item.state,
+    item.closedAt ? item.closedAt.toISOString() : 'N/A',
+    item.closedBy || 'N/A',
+    item.mergedAt ? item.mergedAt.toISOString() : 'N/A',
+    item.timeToCloseHours !== null ? item.timeToCloseHours.toFixed(2) : 'N/A',
+    item.timeToMergeHours !== null ? item.timeToMergeHours.toFixed(2) : 'N/A',
+    item.responseEvent || 'N/A',
+    `"${item.labels.join('; ').replace(/"/g, '""')}"`,
   ]);
 
   return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
@@ -41,76 +63,879 @@ export function generateCSV(data: IssueData[]): string {
 /**
  * Save CSV to file
  */
-export async function saveCSV(data: IssueData[], filename?: string): Promise<string> {
+export async function saveCSV(
+  data: IssueData[],
+  timezone: string = DEFAULT_CALENDAR.timezone,
+  filename?: string
+): Promise<string> {
   const filepath = filename || 'response-times.csv';
   
-  const csvContent = generateCSV(data);
+  const csvContent = generateCSV(data, timezone);
   await Bun.write(filepath, csvContent);
   
   return filepath;
 }
 
 /**
- * Display metrics in console with formatted tables
+ * Replace every Date in a value with its ISO 8601 string, in UTC or with the offset of a timezone
  */
-export function displayConsoleOutput(
+export function serializeDates<T>(value: T, timezone?: string): Serialized<T> {
+  if (value instanceof Date) {
+    return (timezone ? toZonedISOString(value, timezone) : value.toISOString()) as Serialized<T>;
+  }
+  if (Array.isArray(value)) return value.map(entry => serializeDates(entry, timezone)) as Serialized<T>;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, serializeDates(entry, timezone)])
+    ) as Serialized<T>;
+  }
+  return value as Serialized<T>;
+}
+
+/**
+ * Build the versioned JSON report document (dates carry the offset of the calendar's timezone,
+ * so week starts read as the same dates as in the other outputs)
+ */
+export function generateJSONReport(report: ReportData, config: Config): JsonReport {
+  const { githubToken, notifiers, ...publicConfig } = config;
+
+  return {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    config: publicConfig,
+    dateRange: { start: toZonedISOString(report.startDate, report.timezone), end: toZonedISOString(report.endDate, report.timezone) },
+    trackedRepositories: report.trackedRepositories,
+    overall: report.metrics,
+    weeklySummary: serializeDates(report.weeklySummary, report.timezone),
+    repositories: serializeDates(report.repositoryMetrics, report.timezone),
+    labelGroups: serializeDates(report.labelGroupMetrics, report.timezone),
+    exclusions: report.exclusions,
+    responders: report.responderReport,
+    contributors: serializeDates(report.contributorReport, report.timezone),
+    trends: serializeDates(report.trends, report.timezone),
+    items: serializeDates(report.items, report.timezone),
+  };
+}
+
+/**
+ * Save the JSON report to file
+ */
+export async function saveJSONReport(report: ReportData, config: Config, filename?: string): Promise<string> {
+  const filepath = filename || 'response-times.json';
+
+  await Bun.write(filepath, JSON.stringify(generateJSONReport(report, config), null, 2));
+
+  return filepath;
+}
+
+/**
+ * Generate summary CSV content: weekly totals for all repositories, per repository and per label group
+ */
+export function generateSummaryCSV(
+  weeklySummary: WeeklySummary[],
+  repositoryMetrics: RepositoryMetrics[],
+  labelGroupMetrics: LabelGroupMetrics[] = [],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string {
+  // Every week has the same buckets (sized to the calendar's working day)
+  const histogramLabels = weeklySummary[0]?.responseTimes.histogram.map(bucket => bucket.label) ?? [];
+
+  const headers = [
+    'Repository',
+    'Week Starting',
+    'Total',
+    'Within 1 Day',
+    'Percentage',
+    'Median (hours)',
+    'P75 (hours)',
+    'P90 (hours)',
+    'P95 (hours)',
+    'Issue Median (hours)',
+    'Issue P90 (hours)',
+    'PR Median (hours)',
+    'PR P90 (hours)',
+    ...histogramLabels.map(label => label === 'never' ? 'Never' : `"${label}"`),
+    'Open',
+    'Closed',
+    'Merged',
+    'PR Merge Rate',
+    'Median Time to Close (hours)',
+    'Median Time to Merge (hours)',
+    'Label Group',
+  ];
+
+  const toRow = (repository: string, labelGroup: string, week: WeeklySummary) => [
+    repository,
+    formatDate(week.weekStarting, timezone),
+    week.totalIssues.toString(),
+    week.respondedWithinOneDay.toString(),
+    week.percentage.toFixed(1),
+    formatHours(week.responseTimes.median),
+    formatHours(week.responseTimes.p75),
+    formatHours(week.responseTimes.p90),
+    formatHours(week.responseTimes.p95),
+    formatHours(week.issueResponseTimes.median),
+    formatHours(week.issueResponseTimes.p90),
+    formatHours(week.prResponseTimes.median),
+    formatHours(week.prResponseTimes.p90),
+    ...week.responseTimes.histogram.map(bucket => bucket.count.toString()),
+    week.lifecycle.open.toString(),
+    week.lifecycle.closed.toString(),
+    week.lifecycle.merged.toString(),
+    week.lifecycle.prMergeRate.toFixed(1),
+    formatHours(week.lifecycle.medianTimeToCloseHours),
+    formatHours(week.lifecycle.medianTimeToMergeHours),
+    `"${labelGroup.replace(/"/g, '""')}"`,
+  ];
+
+  const rows = [
+    ...weeklySummary.map(week => toRow('All', 'All', week)),
+    ...repositoryMetrics.flatMap(repo => repo.weeklySummary.map(week => toRow(repo.repository, 'All', week))),
+    ...labelGroupMetrics.flatMap(group => group.weeklySummary.map(week => toRow('All', group.group, week))),
+  ];
+
+  return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+}
+
+/**
+ * Save summary CSV to file
+ */
+export async function saveSummaryCSV(
+  weeklySummary: WeeklySummary[],
+  repositoryMetrics: RepositoryMetrics[],
+  labelGroupMetrics: LabelGroupMetrics[] = [],
+  timezone: string = DEFAULT_CALENDAR.timezone,
+  filename?: string
+): Promise<string> {
+  const filepath = filename || 'response-times-summary.csv';
+
+  const csvContent = generateSummaryCSV(weeklySummary, repositoryMetrics, labelGroupMetrics, timezone);
+  await Bun.write(filepath, csvContent);
+
+  return filepath;
+}
+
+/**
+ * Generate responder leaderboard CSV content
+ */
+export function generateResponderCSV(report: ResponderReport): string {
+  const headers = [
+    'Responder',
+    'First Responses',
+    'Share (%)',
+    'Median Response Time (hours)',
+    'Repositories',
+  ];
+
+  const rows = report.responders.map(responder => [
+    responder.login,
+    responder.firstResponses.toString(),
+    responder.sharePercentage.toFixed(1),
+    responder.medianResponseTimeHours !== null ? responder.medianResponseTimeHours.toFixed(2) : 'N/A',
+    `"${responder.repositories.join(', ')}"`,
+  ]);
+
+  return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+}
+
+/**
+ * Save responder leaderboard CSV to file
+ */
+export async function saveResponderCSV(report: ResponderReport, filename?: string): Promise<string> {
+  const filepath = filename || 'responders.csv';
+
+  const csvContent = generateResponderCSV(report);
+  await Bun.write(filepath, csvContent);
+
+  return filepath;
+}
+
+/**
+ * Format the responder leaderboard as table lines
+ */
+export function formatResponderTable(report: ResponderReport, limit?: number): string[] {
+  const lines = [
+    'Responder            | Responses |  Share | Median (h) | Repositories',
+    '-'.repeat(80),
+  ];
+
+  for (const responder of report.responders.slice(0, limit)) {
+    const loginStr = responder.login.padEnd(20);
+    const countStr = responder.firstResponses.toString().padStart(9);
+    const shareStr = `${responder.sharePercentage.toFixed(1)}%`.padStart(6);
+    const medianStr = (responder.medianResponseTimeHours !== null
+      ? responder.medianResponseTimeHours.toFixed(2)
+      : 'N/A').padStart(10);
+
+    lines.push(`${loginStr} | ${countStr} | ${shareStr} | ${medianStr} | ${responder.repositories.join(', ')}`);
+  }
+
+  if (limit !== undefined && report.responders.length > limit) {
+    lines.push(`... and ${report.responders.length - limit} more`);
+  }
+
+  return lines;
+}
+
+/**
+ * Display responder leaderboard and workload distribution in console
+ */
+export function displayResponderReport(report: ResponderReport): void {
+  console.log('\n👥 RESPONDER LEADERBOARD - First Responses\n');
+
+  if (report.responders.length === 0) {
+    console.log('  No first responses in this period');
+    return;
+  }
+
+  formatResponderTable(report).forEach(line => console.log(line));
+  console.log(`\n  ${describeWorkloadConcentration(report)}`);
+}
+
+/**
+ * Format first-time and returning authors per week, and the response times of first
+ * contributions against those of repeat contributors, as table lines
+ */
+export function formatContributorTables(
+  report: ContributorReport,
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  const lines = [
+    `Week Starting | Authors | First-time | Returned (${report.returnWindowDays}d)`,
+    '-'.repeat(55),
+  ];
+
+  for (const week of report.weekly) {
+    lines.push(
+      `${formatDate(week.weekStarting, timezone)}    | ${week.authors.toString().padStart(7)} | ` +
+      `${week.firstTimers.toString().padStart(10)} | ${week.returned.toString().padStart(13)}`
+    );
+  }
+
+  const groupLine = (label: string, stats: ContributorGroupStats) =>
+    `${label.padEnd(20)} | ${stats.items.toString().padStart(5)} | ` +
+    `${`${stats.percentage.toFixed(1)}%`.padStart(12)} | ` +
+    `${formatHours(stats.medianResponseTimeHours).padStart(10)} | ${formatHours(stats.p90ResponseTimeHours).padStart(7)}`;
+
+  lines.push(
+    '',
+    'Contributions        | Items | Within 1 Day | Median (h) | P90 (h)',
+    '-'.repeat(66),
+    groupLine('First contributions', report.firstContributions),
+    groupLine('Repeat contributors', report.repeatContributions),
+  );
+
+  return lines;
+}
+
+/**
+ * Display first-time and returning contributors in console
+ */
+export function displayContributorReport(
+  report: ContributorReport,
+  timezone: string = DEFAULT_CALENDAR.timezone
+): void {
+  console.log('\n🌱 CONTRIBUTORS - First-time and Returning Authors\n');
+
+  if (report.authors === 0) {
+    console.log('  No external authors in this period');
+    return;
+  }
+
+  formatContributorTables(report, timezone).forEach(line => console.log(line));
+  console.log(`\n  ${describeContributorRetention(report)}`);
+}
+
+/**
+ * Format hours with two decimals, or N/A
+ */
+export function formatHours(hours: number | null): string {
+  return hours !== null ? hours.toFixed(2) : 'N/A';
+}
+
+/**
+ * Format response time percentiles per type and for all items as table lines
+ */
+export function formatPercentileTable(metrics: OverallMetrics): string[] {
+  const lines = ['Type     |   Median |      P75 |      P90 |      P95'];
+  lines.push('-'.repeat(lines[0].length));
+
+  const rows: Array<[string, Pick<ResponseTimeStats, 'median' | 'p75' | 'p90' | 'p95'>]> = [
+    ['Issues', metrics.issueResponseTimes],
+    ['PRs', metrics.prResponseTimes],
+    ['All', {
+      median: metrics.medianResponseTimeHours,
+      p75: metrics.p75ResponseTimeHours,
+      p90: metrics.p90ResponseTimeHours,
+      p95: metrics.p95ResponseTimeHours,
+    }],
+  ];
+
+  for (const [label, stats] of rows) {
+    const values = [stats.median, stats.p75, stats.p90, stats.p95].map(v => formatHours(v).padStart(8));
+    lines.push(`${label.padEnd(8)} | ${values.join(' | ')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Format the response time histogram (issues, PRs and all items per bucket) as table lines
+ */
+export function formatHistogramTable(metrics: OverallMetrics): string[] {
+  const lines = ['Response Time | Issues |    PRs |    All'];
+  lines.push('-'.repeat(lines[0].length));
+
+  const total = metrics.totalIssues + metrics.totalPRs;
+
+  metrics.responseTimeHistogram.forEach((bucket, index) => {
+    const issueCount = metrics.issueResponseTimes.histogram[index].count;
+    const prCount = metrics.prResponseTimes.histogram[index].count;
+    const bar = total > 0 ? '█'.repeat(Math.round((bucket.count / total) * 20)) : '';
+
+    lines.push(
+      `${bucket.label.padEnd(13)} | ${issueCount.toString().padStart(6)} | ${prCount.toString().padStart(6)} | ${bucket.count.toString().padStart(6)}${bar ? ` ${bar}` : ''}`
+    );
+  });
+
+  return lines;
+}
+
+/**
+ * Format weekly response time percentiles as table lines
+ */
+export function formatWeeklyResponseTimes(
+  weeklySummary: WeeklySummary[],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  const lines = ['Week Starting      |   Median |      P75 |      P90 |      P95'];
+  lines.push('-'.repeat(lines[0].length));
+
+  for (const week of weeklySummary) {
+    const stats = week.responseTimes;
+    const values = [stats.median, stats.p75, stats.p90, stats.p95].map(v => formatHours(v).padStart(8));
+    lines.push(`${formatDate(week.weekStarting, timezone).padEnd(18)} | ${values.join(' | ')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Format overall close/merge metrics as lines
+ */
+export function formatLifecycleLines(metrics: OverallMetrics): string[] {
+  const lifecycle = metrics.lifecycle;
+  return [
+    `Open: ${lifecycle.open}  Closed: ${lifecycle.closed}  Merged: ${lifecycle.merged}`,
+    `PR Merge Rate: ${lifecycle.prMergeRate.toFixed(1)}% of ${metrics.totalPRs} external PRs`,
+    `Time to Close: median ${formatHours(lifecycle.medianTimeToCloseHours)} h, p90 ${formatHours(lifecycle.p90TimeToCloseHours)} h`,
+    `Time to Merge: median ${formatHours(lifecycle.medianTimeToMergeHours)} h, p90 ${formatHours(lifecycle.p90TimeToMergeHours)} h`,
+  ];
+}
+
+/**
+ * Format weekly close/merge metrics as table lines
+ */
+export function formatWeeklyLifecycle(
+  weeklySummary: WeeklySummary[],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  const lines = ['Week Starting      | Open | Closed | Merged | Merge Rate | Close (h) | Merge (h)'];
+  lines.push('-'.repeat(lines[0].length));
+
+  for (const week of weeklySummary) {
+    const lifecycle = week.lifecycle;
+    lines.push([
+      formatDate(week.weekStarting, timezone).padEnd(18),
+      lifecycle.open.toString().padStart(4),
+      lifecycle.closed.toString().padStart(6),
+      lifecycle.merged.toString().padStart(6),
+      `${lifecycle.prMergeRate.toFixed(1)}%`.padStart(10),
+      formatHours(lifecycle.medianTimeToCloseHours).padStart(9),
+      formatHours(lifecycle.medianTimeToMergeHours).padStart(9),
+    ].join(' | '));
+  }
+
+  return lines;
+}
+
+/**
+ * Format a delta with its sign and an up/down marker ("-" when there is nothing to compare with)
+ */
+export function formatDelta(delta: number | null, unit: string): string {
+  if (delta === null) return '-';
+  if (Math.abs(delta) < 0.05) return `0.0${unit} =`;
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}${unit} ${delta > 0 ? '▲' : '▼'}`;
+}
+
+/**
+ * Describe a week in one line for the chat notifiers: the percentage responded within one business day,
+ * the median and the change against the previous week and the trailing average. The date is left to the caller.
+ */
+export function formatWeekLine(week: WeeklySummary, trends: WeeklyTrend[] = []): string {
+  const trend = trends.find(entry => entry.weekStarting.getTime() === week.weekStarting.getTime());
+  let line = `${week.percentage.toFixed(1)}% (${week.respondedWithinOneDay}/${week.totalIssues}) · median ${formatHours(week.responseTimes.median)} h`;
+  if (trend && trend.withinOneDayPercentage.previousDelta !== null) {
+    line += ` · ${formatDelta(trend.withinOneDayPercentage.previousDelta, 'pp')} vs prev`;
+  }
+  if (trend && trend.withinOneDayPercentage.trailingAverageDelta !== null) {
+    line += ` · ${formatDelta(trend.withinOneDayPercentage.trailingAverageDelta, 'pp')} vs ${TRAILING_WEEKS}w avg`;
+  }
+  return line;
+}
+
+function formatTrendCells(trend: TrendDelta, valueUnit: string, deltaUnit: string): string[] {
+  return [
+    trend.current === null ? '-' : `${trend.current.toFixed(1)}${valueUnit}`,
+    formatDelta(trend.previousDelta, deltaUnit),
+    formatDelta(trend.trailingAverageDelta, deltaUnit),
+  ];
+}
+
+/**
+ * Format week-over-week and trailing-average deltas as table lines
+ * (% within 1 business day in percentage points, median response time in working hours)
+ */
+export function formatTrendTable(
+  trends: WeeklyTrend[],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  const prevLabel = 'vs Prev'.padStart(10);
+  const avgLabel = `vs ${TRAILING_WEEKS}w Avg`.padStart(10);
+  const lines = [
+    `Week Starting      | 1 Day % | ${prevLabel} | ${avgLabel} | Median h | ${prevLabel} | ${avgLabel}`,
+  ];
+  lines.push('-'.repeat(lines[0].length));
+
+  for (const trend of trends) {
+    const [pct, pctPrev, pctAvg] = formatTrendCells(trend.withinOneDayPercentage, '%', 'pp');
+    const [median, medianPrev, medianAvg] = formatTrendCells(trend.medianResponseTimeHours, '', 'h');
+    lines.push([
+      formatDate(trend.weekStarting, timezone).padEnd(18),
+      pct.padStart(7),
+      pctPrev.padStart(10),
+      pctAvg.padStart(10),
+      median.padStart(8),
+      medianPrev.padStart(10),
+      medianAvg.padStart(10),
+    ].join(' | '));
+  }
+
+  return lines;
+}
+
+/**
+ * Get the percentage of items responded within one business day across issues and PRs
+ */
+export function getOneDayPercentage(metrics: OverallMetrics): number {
+  const total = metrics.totalIssues + metrics.totalPRs;
+  return total > 0 ? ((metrics.issuesWithinOneDay + metrics.prsWithinOneDay) / total) * 100 : 0;
+}
+
+/**
+ * Default target for the percentage of items responded within one business day
+ */
+export const DEFAULT_TARGET_PERCENTAGE = 80;
+
+/**
+ * Status of a percentage against the target: at or above it, up to 10 points below, or further below
+ */
+export function getTargetStatus(percentage: number, targetPercentage: number): 'good' | 'warning' | 'bad' {
+  if (percentage >= targetPercentage) return 'good';
+  if (percentage >= targetPercentage - 10) return 'warning';
+  return 'bad';
+}
+
+/**
+ * Find the worst-offending missed items: those that never got a response first (oldest first),
+ * then the slowest responses
+ */
+export function findWorstItems(data: IssueData[], maxItems: number = 5): IssueData[] {
+  return data
+    .filter(item => !item.respondedWithinOneDay)
+    .sort((a, b) => {
+      if (a.responseTimeHours === null && b.responseTimeHours === null) {
+        return a.createdAt.getTime() - b.createdAt.getTime();
+      }
+      if (a.responseTimeHours === null) return -1;
+      if (b.responseTimeHours === null) return 1;
+      return b.responseTimeHours - a.responseTimeHours;
+    })
+    .slice(0, maxItems);
+}
+
+/**
+ * Format a row x week matrix of the percentage responded within one business day.
+ * Each cell shows the percentage and item count; each row's weakest week is marked with ▼.
+ */
+function formatWeekMatrix(
+  nameHeader: string,
+  rows: Array<{ name: string; metrics: OverallMetrics; weeklySummary: WeeklySummary[] }>,
+  weeks: Date[],
+  timezone: string
+): string[] {
+  const nameWidth = Math.max(10, ...rows.map(row => row.name.length));
+  const cellWidth = 11;
+
+  const header = [
+    nameHeader.padEnd(nameWidth),
+    ...weeks.map(week => formatDate(week, timezone).slice(5).padStart(cellWidth)),
+    'Overall'.padStart(cellWidth),
+  ].join(' |');
+
+  const lines = [header, '-'.repeat(header.length)];
+
+  for (const row of rows) {
+    const weakest = findWeakestWeek(row.weeklySummary);
+    const cells = weeks.map(weekStart => {
+      const week = row.weeklySummary.find(w => w.weekStarting.getTime() === weekStart.getTime());
+      if (!week) return '- '.padStart(cellWidth);
+
+      const marker = week === weakest && row.weeklySummary.length > 1 ? '▼' : ' ';
+      return `${week.percentage.toFixed(0)}% (${week.totalIssues})${marker}`.padStart(cellWidth);
+    });
+
+    const overallTotal = row.metrics.totalIssues + row.metrics.totalPRs;
+    const overall = `${getOneDayPercentage(row.metrics).toFixed(0)}% (${overallTotal}) `.padStart(cellWidth);
+
+    lines.push([row.name.padEnd(nameWidth), ...cells, overall].join(' |'));
+  }
+
+  return lines;
+}
+
+/**
+ * Format a repository x week matrix of the percentage responded within one business day
+ */
+export function formatRepositoryMatrix(
+  repositoryMetrics: RepositoryMetrics[],
+  weeks: Date[],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  return formatWeekMatrix('Repository', repositoryMetrics.map(repo => ({ ...repo, name: repo.repository })), weeks, timezone);
+}
+
+/**
+ * Format a label group x week matrix of the percentage responded within one business day
+ */
+export function formatLabelGroupMatrix(
+  labelGroupMetrics: LabelGroupMetrics[],
+  weeks: Date[],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  return formatWeekMatrix('Label Group', labelGroupMetrics.map(group => ({ ...group, name: group.group })), weeks, timezone);
+}
+
+/**
+ * Format overall metrics per label group as table lines
+ */
+export function formatLabelGroupStats(labelGroupMetrics: LabelGroupMetrics[]): string[] {
+  const nameWidth = Math.max(11, ...labelGroupMetrics.map(group => group.group.length));
+  const lines = [
+    `${'Label Group'.padEnd(nameWidth)} | Issues |    PRs | Responded | Within 1 Day | Median (h) | P90 (h)`,
+  ];
+  lines.push('-'.repeat(lines[0].length));
+
+  for (const { group, metrics } of labelGroupMetrics) {
+    const total = metrics.totalIssues + metrics.totalPRs;
+    const responded = metrics.issuesResponded + metrics.prsResponded;
+    lines.push([
+      group.padEnd(nameWidth),
+      metrics.totalIssues.toString().padStart(6),
+      metrics.totalPRs.toString().padStart(6),
+      `${total > 0 ? ((responded / total) * 100).toFixed(1) : '0.0'}%`.padStart(9),
+      `${getOneDayPercentage(metrics).toFixed(1)}%`.padStart(12),
+      formatHours(metrics.medianResponseTimeHours).padStart(10),
+      formatHours(metrics.p90ResponseTimeHours).padStart(7),
+    ].join(' | '));
+  }
+
+  return lines;
+}
+
+/**
+ * Format the console report (metrics, weekly summary, trends, per-repository and per-label-group breakdowns) as lines
+ */
+export function formatConsoleOutput(
   metrics: OverallMetrics,
   weeklySummary: WeeklySummary[],
   startDate: Date,
-  endDate: Date
-): void {
-  console.log('\n' + '='.repeat(80));
-  console.log('GitHub Issue Response Time Analysis');
-  console.log('='.repeat(80));
-  console.log(`Date Range: ${formatDate(startDate)} to ${formatDate(endDate)}`);
-  console.log('='.repeat(80));
+  endDate: Date,
+  repositoryMetrics: RepositoryMetrics[] = [],
+  trends: WeeklyTrend[] = [],
+  labelGroupMetrics: LabelGroupMetrics[] = [],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): string[] {
+  const lines: string[] = [];
+  lines.push('\n' + '='.repeat(80));
+  lines.push('GitHub Issue Response Time Analysis');
+  lines.push('='.repeat(80));
+  lines.push(`Date Range: ${formatDate(startDate, timezone)} to ${formatDate(endDate, timezone)}`);
+  lines.push('='.repeat(80));
 
   // Overall Metrics
-  console.log('\n📊 OVERALL METRICS\n');
+  lines.push('\n📊 OVERALL METRICS\n');
   
-  console.log('Issues:');
-  console.log(`  Total: ${metrics.totalIssues}`);
-  console.log(`  Responded: ${metrics.issuesResponded} (${metrics.issueResponseRate.toFixed(1)}%)`);
-  console.log(`  Within 1 Day: ${metrics.issuesWithinOneDay} (${metrics.issueOneDayPercentage.toFixed(1)}%)`);
+  lines.push('Issues:');
+  lines.push(`  Total: ${metrics.totalIssues}`);
+  lines.push(`  Responded: ${metrics.issuesResponded} (${metrics.issueResponseRate.toFixed(1)}%)`);
+  lines.push(`  Within 1 Day: ${metrics.issuesWithinOneDay} (${metrics.issueOneDayPercentage.toFixed(1)}%)`);
   
-  console.log('\nPull Requests:');
-  console.log(`  Total: ${metrics.totalPRs}`);
-  console.log(`  Responded: ${metrics.prsResponded} (${metrics.prResponseRate.toFixed(1)}%)`);
-  console.log(`  Within 1 Day: ${metrics.prsWithinOneDay} (${metrics.prOneDayPercentage.toFixed(1)}%)`);
+  lines.push('\nPull Requests:');
+  lines.push(`  Total: ${metrics.totalPRs}`);
+  lines.push(`  Responded: ${metrics.prsResponded} (${metrics.prResponseRate.toFixed(1)}%)`);
+  lines.push(`  Within 1 Day: ${metrics.prsWithinOneDay} (${metrics.prOneDayPercentage.toFixed(1)}%)`);
 
   // Response Time Statistics
   if (metrics.meanResponseTimeHours !== null) {
-    console.log('\n⏱️  RESPONSE TIME STATISTICS (in hours)\n');
-    console.log(`  Minimum: ${metrics.minResponseTimeHours?.toFixed(2)} hours`);
-    console.log(`  Maximum: ${metrics.maxResponseTimeHours?.toFixed(2)} hours`);
-    console.log(`  Mean: ${metrics.meanResponseTimeHours?.toFixed(2)} hours`);
-    console.log(`  Median: ${metrics.medianResponseTimeHours?.toFixed(2)} hours`);
+    lines.push('\n⏱️  RESPONSE TIME STATISTICS (in hours)\n');
+    lines.push(`  Minimum: ${metrics.minResponseTimeHours?.toFixed(2)} hours`);
+    lines.push(`  Maximum: ${metrics.maxResponseTimeHours?.toFixed(2)} hours`);
+    lines.push(`  Mean: ${metrics.meanResponseTimeHours?.toFixed(2)} hours`);
+    lines.push('');
+    lines.push(...formatPercentileTable(metrics).map(line => `  ${line}`));
   }
 
+  // Lifecycle
+  lines.push('\n🔄 LIFECYCLE (time in working hours)\n');
+  lines.push(...formatLifecycleLines(metrics).map(line => `  ${line}`));
+
+  // Response Time Distribution
+  lines.push('\n📊 RESPONSE TIME DISTRIBUTION (working hours)\n');
+  lines.push(...formatHistogramTable(metrics).map(line => `  ${line}`));
+
   // Weekly Summary
   if (weeklySummary.length > 0) {
-    console.log('\n📅 WEEKLY SUMMARY - Issues/PRs Responded Within 1 Business Day\n');
-    console.log('Week Starting       | Total | Within 1 Day | Percentage');
-    console.log('-'.repeat(60));
+    lines.push('\n📅 WEEKLY SUMMARY - Issues/PRs Responded Within 1 Business Day\n');
+    lines.push('Week Starting       | Total | Within 1 Day | Percentage');
+    lines.push('-'.repeat(60));
     
     for (const week of weeklySummary) {
-      const weekStr = formatDate(week.weekStarting).padEnd(18);
+      const weekStr = formatDate(week.weekStarting, timezone).padEnd(18);
       const totalStr = week.totalIssues.toString().padStart(5);
       const respondedStr = week.respondedWithinOneDay.toString().padStart(12);
       const percentageStr = `${week.percentage.toFixed(1)}%`.padStart(10);
       
-      console.log(`${weekStr} | ${totalStr} | ${respondedStr} | ${percentageStr}`);
+      lines.push(`${weekStr} | ${totalStr} | ${respondedStr} | ${percentageStr}`);
     }
+
+    lines.push('\n⏱️  WEEKLY RESPONSE TIMES (in hours)\n');
+    lines.push(...formatWeeklyResponseTimes(weeklySummary, timezone));
+
+    lines.push('\n🔄 WEEKLY LIFECYCLE - Time to Close/Merge (median, working hours)\n');
+    lines.push(...formatWeeklyLifecycle(weeklySummary, timezone));
+  }
+
+  // Trend against stored history
+  if (trends.length > 0) {
+    lines.push(`\n📈 TREND - vs previous week and trailing ${TRAILING_WEEKS}-week average (▲ up, ▼ down)\n`);
+    lines.push(...formatTrendTable(trends, timezone));
+  }
+
+  // Per-repository breakdown
+  if (repositoryMetrics.length > 0) {
+    lines.push('\n📦 BY REPOSITORY - % Responded Within 1 Business Day (items), ▼ = weakest week\n');
+    lines.push(...formatRepositoryMatrix(repositoryMetrics, weeklySummary.map(week => week.weekStarting), timezone));
+  }
+
+  // Per-label-group breakdown
+  if (labelGroupMetrics.length > 0) {
+    lines.push('\n🏷️  BY LABEL GROUP - % Responded Within 1 Business Day (items), ▼ = weakest week\n');
+    lines.push(...formatLabelGroupMatrix(labelGroupMetrics, weeklySummary.map(week => week.weekStarting), timezone));
+    lines.push('');
+    lines.push(...formatLabelGroupStats(labelGroupMetrics));
+  }
+
+  lines.push('\n' + '='.repeat(80));
+
+  return lines;
+}
+
+/**
+ * Display metrics in console with formatted tables
+ */
+export function displayConsoleOutput(
+  metrics: OverallMetrics,
+  weeklySummary: WeeklySummary[],
+  startDate: Date,
+  endDate: Date,
+  repositoryMetrics: RepositoryMetrics[] = [],
+  trends: WeeklyTrend[] = [],
+  labelGroupMetrics: LabelGroupMetrics[] = [],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): void {
+  console.log(formatConsoleOutput(metrics, weeklySummary, startDate, endDate, repositoryMetrics, trends, labelGroupMetrics, timezone).join('\n'));
+}
+
+/**
+ * Display the full weekly time series from the history store
+ */
+export function displayHistory(
+  snapshots: HistorySnapshot[],
+  series: WeeklySummary[],
+  trends: WeeklyTrend[],
+  timezone: string = DEFAULT_CALENDAR.timezone
+): void {
+  console.log('\n' + '='.repeat(80));
+  console.log('Response Time History');
+  console.log('='.repeat(80));
+
+  if (series.length === 0) {
+    console.log('\nNo history recorded yet. Run a report to store the first snapshot.');
+    console.log('\n' + '='.repeat(80));
+    return;
+  }
+
+  const first = snapshots[0].recordedAt;
+  const last = snapshots[snapshots.length - 1].recordedAt;
+  console.log(`${snapshots.length} report runs from ${formatDate(first, timezone)} to ${formatDate(last, timezone)}, ${series.length} weeks`);
+  console.log('='.repeat(80));
+
+  console.log('\n📅 WEEKLY SUMMARY - Issues/PRs Responded Within 1 Business Day\n');
+  console.log('Week Starting       | Total | Within 1 Day | Percentage');
+  console.log('-'.repeat(60));
+  for (const week of series) {
+    const weekStr = formatDate(week.weekStarting, timezone).padEnd(18);
+    const totalStr = week.totalIssues.toString().padStart(5);
+    const respondedStr = week.respondedWithinOneDay.toString().padStart(12);
+    const percentageStr = `${week.percentage.toFixed(1)}%`.padStart(10);
+
+    console.log(`${weekStr} | ${totalStr} | ${respondedStr} | ${percentageStr}`);
   }
 
+  console.log('\n⏱️  WEEKLY RESPONSE TIMES (in hours)\n');
+  formatWeeklyResponseTimes(series, timezone).forEach(line => console.log(line));
+
+  console.log(`\n📈 TREND - vs previous week and trailing ${TRAILING_WEEKS}-week average (▲ up, ▼ down)\n`);
+  formatTrendTable(trends, timezone).forEach(line => console.log(line));
+
   console.log('\n' + '='.repeat(80));
 }
 
 /**
- * Display summary footer
+ * Generate backlog CSV content (open unanswered items, oldest first)
  */
-export function displaySummary(csvPath: string): void {
-  console.log(`\n✅ Analysis complete!`);
-  console.log(`📄 CSV report saved to: ${csvPath}\n`);
+export function generateBacklogCSV(report: BacklogReport): string {
+  const headers = [
+    'Repository',
+    'Type',
+    'Number',
+    'Title',
+    'Labels',
+    'Created At',
+    'Age (business days)',
+    'Age (working hours)',
+    'Reported By',
+    'URL',
+  ];
+
+  const rows = report.items.map(({ item, ageHours, ageBusinessDays }) => [
+    item.repository,
+    item.type.toUpperCase(),
+    item.number.toString(),
+    `"${item.title.replace(/"/g, '""')}"`, // Escape quotes in title
+    `"${item.labels.join('; ').replace(/"/g, '""')}"`,
+    item.createdAt.toISOString(),
+    ageBusinessDays.toFixed(1),
+    ageHours.toFixed(2),
+    item.reportedBy || 'N/A',
+    item.url,
+  ]);
+
+  return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+}
+
+/**
+ * Save backlog CSV to file
+ */
+export async function saveBacklogCSV(report: BacklogReport, filename?: string): Promise<string> {
+  const filepath = filename || 'backlog.csv';
+
+  const csvContent = generateBacklogCSV(report);
+  await Bun.write(filepath, csvContent);
+
+  return filepath;
+}
+
+/**
+ * Format open unanswered items grouped by age as lines
+ */
+export function formatBacklogReport(report: BacklogReport): string[] {
+  const lines: string[] = [];
+  lines.push('\n' + '='.repeat(80));
+  lines.push('Open Backlog - Items Without an Org Response');
+  lines.push('='.repeat(80));
+  lines.push(`Generated: ${report.generatedAt.toISOString()}`);
+  lines.push('='.repeat(80));
+
+  lines.push(`\n📥 ${report.items.length} open items without a response\n`);
+
+  if (report.items.length === 0) {
+    lines.push('='.repeat(80));
+    return lines;
+  }
+
+  lines.push('Age (business days) | Count');
+  lines.push('-'.repeat(28));
+  for (const bucket of report.ageBuckets) {
+    lines.push(`${bucket.label.padEnd(19)} | ${bucket.items.length.toString().padStart(5)}`);
+  }
+
+  lines.push('\nRepository           | Count');
+  lines.push('-'.repeat(28));
+  for (const repo of report.repositories) {
+    lines.push(`${repo.repository.padEnd(20)} | ${repo.count.toString().padStart(5)}`);
+  }
+
+  for (const bucket of [...report.ageBuckets].reverse()) {
+    if (bucket.items.length === 0) continue;
+
+    lines.push(`\n⏳ ${bucket.label}\n`);
+    for (const { item, ageBusinessDays } of bucket.items) {
+      lines.push(`  ${item.repository}#${item.number} (${item.type.toUpperCase()}, ${ageBusinessDays.toFixed(1)} days) ${item.title}`);
+      lines.push(`    ${item.url}`);
+    }
+  }
+
+  lines.push('\n' + '='.repeat(80));
+
+  return lines;
 }
 
+/**
+ * Display open unanswered items grouped by age in console
+ */
+export function displayBacklogReport(report: BacklogReport): void {
+  console.log(formatBacklogReport(report).join('\n'));
+}
+
+/**
+ * Format the number of excluded items per reason as lines
+ */
+export function formatExclusionSummary(exclusions: ExclusionCount[]): string[] {
+  const total = exclusions.reduce((sum, { count }) => sum + count, 0);
+  if (total === 0) return ['✓ No items excluded by the exclusion rules or filters'];
+
+  return [
+    `🚫 ${total} items excluded:`,
+    ...exclusions.map(({ reason, count }) => `  ${count.toString().padStart(5)}  ${EXCLUSION_REASONS[reason]}`),
+  ];
+}
+
+/**
+ * Display the exclusion-reasons summary in console
+ */
+export function displayExclusionSummary(exclusions: ExclusionCount[]): void {
+  console.log(`\n${formatExclusionSummary(exclusions).join('\n')}`);
+}
+
+/**
+ * Display summary footer with the files written by this run
+ */
+export function displaySummary(savedFiles: Array<{ label: string; path: string }>): void {
+  console.log(`\n✅ Analysis complete!`);
+  for (const file of savedFiles) {
+    console.log(`📄 ${file.label} saved to: ${file.path}`);
+  }
+  console.log('');
+}
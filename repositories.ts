@@ -0,0 +1,151 @@
+import type { Config, DataSource, OrganizationConfig, OrgRepository, RepositoryDiscoveryConfig } from './types.ts';
+
+export interface ResolvedRepositories {
+  repositories: string[];  // Repositories to track, explicit ones first within each organization
+  listed: number;          // How many come from the explicit list
+  discovered: number;      // How many were added by the discovery rules
+  excluded: string[];      // Names removed by excludeRepositories
+}
+
+/**
+ * Check a repository name against a glob pattern (e.g. "flow-*"), ignoring case like GitHub does
+ */
+export function matchesPattern(name: string, pattern: string): boolean {
+  return new Bun.Glob(pattern.toLowerCase()).match(name.toLowerCase());
+}
+
+/**
+ * Apply the discovery rules to the organization's repositories, returning matching names sorted
+ */
+export function filterDiscoveredRepositories(repos: OrgRepository[], discovery: RepositoryDiscoveryConfig): string[] {
+  const topics = (discovery.topics ?? []).map(topic => topic.toLowerCase());
+
+  return repos
+    .filter(repo => discovery.includeArchived || !repo.archived)
+    .filter(repo => discovery.includeForks || !repo.fork)
+    .filter(repo => topics.length === 0 || repo.topics.some(topic => topics.includes(topic.toLowerCase())))
+    .filter(repo => !discovery.include || discovery.include.some(pattern => matchesPattern(repo.name, pattern)))
+    .map(repo => repo.name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Describe the discovery rules in one line for the startup log
+ */
+export function describeRepositoryDiscovery(discovery: RepositoryDiscoveryConfig): string {
+  const parts = [
+    discovery.visibility === 'all' ? 'all visibilities' : (discovery.visibility ?? 'public'),
+    discovery.includeArchived ? 'including archived' : 'non-archived',
+    discovery.includeForks ? 'including forks' : 'no forks',
+  ];
+  if (discovery.topics?.length) parts.push(`topic ${discovery.topics.join(' or ')}`);
+  if (discovery.include?.length) parts.push(`name ${discovery.include.join(' or ')}`);
+
+  return parts.join(', ');
+}
+
+/**
+ * The tracked organizations: the organizations list, or the top-level fields as a single organization
+ */
+export function getOrganizations(config: Config): OrganizationConfig[] {
+  if (config.organizations?.length) return config.organizations;
+  if (!config.organization) throw new Error('Config needs an organization or an organizations list');
+
+  return [{
+    organization: config.organization,
+    repositories: config.repositories,
+    repositoryDiscovery: config.repositoryDiscovery,
+    excludeRepositories: config.excludeRepositories,
+    excludeTeams: config.excludeTeams,
+  }];
+}
+
+/**
+ * Split an org/name reference (repository or team) into owner and name.
+ * Names without a prefix belong to the default owner.
+ */
+export function splitOwner(reference: string, defaultOwner: string): { owner: string; name: string } {
+  const slash = reference.indexOf('/');
+  return slash === -1
+    ? { owner: defaultOwner, name: reference }
+    : { owner: reference.slice(0, slash), name: reference.slice(slash + 1) };
+}
+
+/**
+ * Name of the tracked organizations for report titles and history, e.g. "vaadin, vaadin-labs"
+ */
+export function getOrganizationLabel(config: Config): string {
+  return getOrganizations(config).map(org => org.organization).join(', ');
+}
+
+/**
+ * Teams to exclude from all organizations, qualified as org/team when tracking several
+ */
+export function getExcludeTeams(config: Config): string[] {
+  const organizations = getOrganizations(config);
+  const qualify = organizations.length > 1;
+
+  return organizations.flatMap(org =>
+    (org.excludeTeams ?? []).map(team => qualify ? `${org.organization}/${team}` : team)
+  );
+}
+
+/**
+ * Resolve one organization's explicit list and discovery rules, minus its excluded names
+ */
+async function resolveOrganizationRepositories(
+  org: OrganizationConfig,
+  source: DataSource
+): Promise<{ repositories: string[]; discovered: number; excluded: string[] }> {
+  const names = [...(org.repositories ?? [])];
+  const discoveredNames = new Set<string>();
+
+  if (org.repositoryDiscovery) {
+    const orgRepositories = await source.listOrgRepositories(org.repositoryDiscovery.visibility, org.organization);
+    const known = new Set(names.map(name => name.toLowerCase()));
+
+    for (const name of filterDiscoveredRepositories(orgRepositories, org.repositoryDiscovery)) {
+      if (!known.has(name.toLowerCase())) {
+        names.push(name);
+        discoveredNames.add(name);
+      }
+    }
+  }
+
+  const excludePatterns = org.excludeRepositories ?? [];
+  const excluded = names.filter(name => excludePatterns.some(pattern => matchesPattern(name, pattern)));
+  const repositories = names.filter(name => !excluded.includes(name));
+
+  return { repositories, discovered: repositories.filter(name => discoveredNames.has(name)).length, excluded };
+}
+
+/**
+ * Resolve the repositories to track: the explicit list plus those found by the discovery rules,
+ * minus the ones matching excludeRepositories. With several organizations every name is
+ * qualified as org/repo, so reports and CSVs break down by organization too.
+ */
+export async function resolveRepositories(config: Config, source: DataSource): Promise<ResolvedRepositories> {
+  const organizations = getOrganizations(config);
+  const qualify = organizations.length > 1;
+  const repositories: string[] = [];
+  const excluded: string[] = [];
+  let discovered = 0;
+
+  for (const org of organizations) {
+    const resolved = await resolveOrganizationRepositories(org, source);
+    const qualified = (name: string) => qualify ? `${org.organization}/${name}` : name;
+
+    repositories.push(...resolved.repositories.map(qualified));
+    excluded.push(...resolved.excluded.map(qualified));
+    discovered += resolved.discovered;
+  }
+
+  if (repositories.length === 0) {
+    throw new Error(
+      'No repositories to track: the repositories list and repositoryDiscovery rules matched nothing ' +
+      'that isn\'t excluded by excludeRepositories'
+    );
+  }
+
+  return { repositories, listed: repositories.length - discovered, discovered, excluded };
+}
@@ -0,0 +1,68 @@
+import type { IssueData, ResponderReport, ResponderStats } from './types.ts';
+import { calculateStats } from './utils.ts';
+
+/**
+ * Group first responses by responder and measure how concentrated the workload is
+ */
+export function calculateResponderReport(data: IssueData[], topResponderCount: number = 3): ResponderReport {
+  const responderMap = new Map<string, { responseTimes: number[]; repositories: Set<string> }>();
+
+  for (const item of data) {
+    if (!item.respondedBy) continue;
+
+    if (!responderMap.has(item.respondedBy)) {
+      responderMap.set(item.respondedBy, { responseTimes: [], repositories: new Set() });
+    }
+
+    const responder = responderMap.get(item.respondedBy)!;
+    if (item.responseTimeHours !== null) {
+      responder.responseTimes.push(item.responseTimeHours);
+    }
+    responder.repositories.add(item.repository);
+  }
+
+  const totalResponses = Array.from(responderMap.values())
+    .reduce((sum, responder) => sum + responder.responseTimes.length, 0);
+
+  const responders: ResponderStats[] = Array.from(responderMap.entries())
+    .map(([login, responder]) => ({
+      login,
+      firstResponses: responder.responseTimes.length,
+      sharePercentage: totalResponses > 0 ? (responder.responseTimes.length / totalResponses) * 100 : 0,
+      medianResponseTimeHours: calculateStats(responder.responseTimes).median,
+      repositories: Array.from(responder.repositories).sort(),
+    }))
+    .sort((a, b) => b.firstResponses - a.firstResponses || a.login.localeCompare(b.login));
+
+  const topResponses = responders
+    .slice(0, topResponderCount)
+    .reduce((sum, responder) => sum + responder.firstResponses, 0);
+
+  // Count how many of the most active responders it takes to cover half of all first responses
+  let respondersForHalf = 0;
+  let covered = 0;
+  for (const responder of responders) {
+    if (covered * 2 >= totalResponses) break;
+    covered += responder.firstResponses;
+    respondersForHalf++;
+  }
+
+  return {
+    totalResponses,
+    responders,
+    topResponderCount: Math.min(topResponderCount, responders.length),
+    topResponderShare: totalResponses > 0 ? (topResponses / totalResponses) * 100 : 0,
+    respondersForHalf,
+  };
+}
+
+/**
+ * Describe workload concentration in one sentence
+ */
+export function describeWorkloadConcentration(report: ResponderReport): string {
+  if (report.totalResponses === 0) return 'No first responses in this period';
+
+  return `Top ${report.topResponderCount} of ${report.responders.length} responders handled ` +
+    `${report.topResponderShare.toFixed(0)}% of first responses; ` +
+    `${report.respondersForHalf} ${report.respondersForHalf === 1 ? 'person' : 'people'} handled half`;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'bun:test';
+import type { ResponseEventType } from './types.ts';
+import {
+  DEFAULT_RESPONSE_EVENTS,
+  findEarliestResponse,
+  resolveResponseEvents,
+  timelineEventToCandidate,
+  type ResponseCandidate,
+  type TimelineEvent,
+} from './responses.ts';
+
+// Recorded timeline events carry many more fields; only the ones read here are filled in
+const timelineEvent = (fields: Record<string, unknown>) => fields as unknown as TimelineEvent;
+
+const members = new Set(['maintainer', 'triager']);
+const isResponder = (login: string) => members.has(login);
+
+const candidate = (hour: number, author: string, event: ResponseEventType): ResponseCandidate =>
+  ({ date: new Date(`2024-01-02T${String(hour).padStart(2, '0')}:00:00Z`), author, event });
+
+describe('timelineEventToCandidate', () => {
+  test('reads comments from the actor, or the user when there is no actor', () => {
+    expect(timelineEventToCandidate(timelineEvent({ event: 'commented', actor: { login: 'maintainer' }, created_at: '2024-01-02T10:00:00Z' })))
+      .toEqual({ date: new Date('2024-01-02T10:00:00Z'), author: 'maintainer', event: 'commented' });
+    expect(timelineEventToCandidate(timelineEvent({ event: 'commented', user: { login: 'triager' }, created_at: '2024-01-02T10:00:00Z' })))
+      .toEqual({ date: new Date('2024-01-02T10:00:00Z'), author: 'triager', event: 'commented' });
+  });
+
+  test('reads reviews from the submitting user', () => {
+    expect(timelineEventToCandidate(timelineEvent({ event: 'reviewed', user: { login: 'maintainer' }, submitted_at: '2024-01-02T11:00:00Z' })))
+      .toEqual({ date: new Date('2024-01-02T11:00:00Z'), author: 'maintainer', event: 'reviewed' });
+  });
+
+  test('reads review comments from the first comment of the thread', () => {
+    const event = timelineEvent({
+      event: 'line-commented',
+      comments: [
+        { user: { login: 'maintainer' }, created_at: '2024-01-02T12:00:00Z' },
+        { user: { login: 'triager' }, created_at: '2024-01-02T13:00:00Z' },
+      ],
+    });
+
+    expect(timelineEventToCandidate(event)).toEqual({ date: new Date('2024-01-02T12:00:00Z'), author: 'maintainer', event: 'review_commented' });
+  });
+
+  test('reads label, assign and close events from the actor', () => {
+    for (const type of ['labeled', 'assigned', 'closed'] as const) {
+      expect(timelineEventToCandidate(timelineEvent({ event: type, actor: { login: 'triager' }, created_at: '2024-01-02T09:30:00Z' })))
+        .toEqual({ date: new Date('2024-01-02T09:30:00Z'), author: 'triager', event: type });
+    }
+  });
+
+  test('skips other event types and events without an actor or date', () => {
+    expect(timelineEventToCandidate(timelineEvent({ event: 'subscribed', actor: { login: 'maintainer' }, created_at: '2024-01-02T10:00:00Z' }))).toBeNull();
+    expect(timelineEventToCandidate(timelineEvent({ event: 'labeled', actor: null, created_at: '2024-01-02T10:00:00Z' }))).toBeNull();
+    expect(timelineEventToCandidate(timelineEvent({ event: 'reviewed', user: { login: 'maintainer' }, submitted_at: null }))).toBeNull();
+    expect(timelineEventToCandidate(timelineEvent({ event: 'line-commented', comments: [] }))).toBeNull();
+  });
+});
+
+describe('findEarliestResponse', () => {
+  const defaults = new Set(DEFAULT_RESPONSE_EVENTS);
+
+  test('counts comments and reviews by default, but not labels, assignments, closes or reactions', () => {
+    const candidates = [
+      candidate(9, 'triager', 'labeled'),
+      candidate(10, 'triager', 'assigned'),
+      candidate(11, 'maintainer', 'reacted'),
+      candidate(12, 'maintainer', 'closed'),
+      candidate(13, 'maintainer', 'reviewed'),
+      candidate(14, 'maintainer', 'commented'),
+    ];
+
+    expect(findEarliestResponse(candidates, defaults, isResponder))
+      .toEqual({ respondedAt: new Date('2024-01-02T13:00:00Z'), respondedBy: 'maintainer', event: 'reviewed' });
+  });
+
+  test('counts the configured event types', () => {
+    const candidates = [candidate(9, 'triager', 'labeled'), candidate(10, 'maintainer', 'reacted'), candidate(11, 'maintainer', 'commented')];
+
+    expect(findEarliestResponse(candidates, new Set<ResponseEventType>(['labeled', 'commented']), isResponder)?.event).toBe('labeled');
+    expect(findEarliestResponse(candidates, new Set<ResponseEventType>(['reacted', 'commented']), isResponder)?.event).toBe('reacted');
+    expect(findEarliestResponse(candidates, new Set<ResponseEventType>(['assigned', 'closed']), isResponder)).toBeNull();
+  });
+
+  test('ignores bots and the author answering their own item', () => {
+    const candidates = [
+      candidate(9, 'github-actions[bot]', 'labeled'),
+      candidate(10, 'stale[bot]', 'commented'),
+      candidate(11, 'reporter', 'commented'),
+      candidate(12, 'reporter', 'closed'),
+    ];
+    const all = resolveResponseEvents({ events: ['commented', 'labeled', 'closed'] });
+
+    expect(findEarliestResponse(candidates, all, isResponder)).toBeNull();
+    expect(findEarliestResponse([...candidates, candidate(15, 'maintainer', 'commented')], all, isResponder)?.respondedBy).toBe('maintainer');
+  });
+});
+
+describe('resolveResponseEvents', () => {
+  test('defaults to comments, reviews, review comments and merges', () => {
+    expect(resolveResponseEvents()).toEqual(new Set(['commented', 'reviewed', 'review_commented', 'merged']));
+  });
+
+  test('rejects unknown event types', () => {
+    expect(() => resolveResponseEvents({ events: ['commented', 'starred' as ResponseEventType] }))
+      .toThrow('Unknown event type(s) in responseRules.events: starred');
+  });
+});
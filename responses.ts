@@ -0,0 +1,141 @@
+import type { RestEndpointMethodTypes } from '@octokit/rest';
+import type { ResponseEventType, ResponseRules } from './types.ts';
+
+/**
+ * Every event type that can be configured in responseRules.events
+ */
+export const ALL_RESPONSE_EVENTS: ResponseEventType[] = [
+  'commented',
+  'reviewed',
+  'review_commented',
+  'merged',
+  'labeled',
+  'assigned',
+  'closed',
+  'cross-referenced',
+  'review_requested',
+  'reacted',
+];
+
+/**
+ * Event types counted when no responseRules are configured (comments, reviews and merges)
+ */
+export const DEFAULT_RESPONSE_EVENTS: ResponseEventType[] = [
+  'commented',
+  'reviewed',
+  'review_commented',
+  'merged',
+];
+
+/**
+ * A candidate response: some activity by a user at a point in time
+ */
+export interface ResponseCandidate {
+  date: Date;
+  author: string;
+  event: ResponseEventType;
+}
+
+/**
+ * The first response that counted for an item
+ */
+export interface FirstResponse {
+  respondedAt: Date;
+  respondedBy: string;
+  event: ResponseEventType;
+}
+
+/**
+ * Resolve the configured response rules into the set of counted event types
+ */
+export function resolveResponseEvents(rules?: ResponseRules): Set<ResponseEventType> {
+  if (!rules) return new Set(DEFAULT_RESPONSE_EVENTS);
+
+  const unknown = rules.events.filter(event => !ALL_RESPONSE_EVENTS.includes(event));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown event type(s) in responseRules.events: ${unknown.join(', ')}. ` +
+      `Valid types: ${ALL_RESPONSE_EVENTS.join(', ')}`
+    );
+  }
+
+  return new Set(rules.events);
+}
+
+/**
+ * An event of the REST issue timeline
+ */
+export type TimelineEvent = RestEndpointMethodTypes['issues']['listEventsForTimeline']['response']['data'][number];
+
+/**
+ * Convert a REST issue timeline event into a response candidate (without membership checks)
+ * The event types share a plain string `event` field, so each case narrows on the fields it reads.
+ */
+export function timelineEventToCandidate(event: TimelineEvent): ResponseCandidate | null {
+  let author: string | undefined;
+  let date: string | null | undefined;
+  let type: ResponseEventType;
+
+  const actor = 'actor' in event ? event.actor?.login : undefined;
+  const createdAt = 'created_at' in event ? event.created_at : undefined;
+
+  switch (event.event) {
+    case 'commented':
+      type = 'commented';
+      author = actor || ('user' in event ? event.user?.login : undefined);
+      date = createdAt;
+      break;
+    case 'reviewed':
+      type = 'reviewed';
+      author = 'user' in event ? event.user?.login : undefined;
+      date = 'submitted_at' in event ? event.submitted_at : undefined;
+      break;
+    case 'line-commented': {
+      const comment = 'comments' in event ? event.comments?.[0] : undefined;
+      type = 'review_commented';
+      author = comment?.user?.login;
+      date = comment?.created_at;
+      break;
+    }
+    case 'merged':
+    case 'labeled':
+    case 'assigned':
+    case 'closed':
+    case 'cross-referenced':
+    case 'review_requested':
+      type = event.event;
+      author = actor;
+      date = createdAt;
+      break;
+    default:
+      return null;
+  }
+
+  if (!author || !date) return null;
+  return { date: new Date(date), author, event: type };
+}
+
+/**
+ * Pick the earliest candidate by a responder whose event type is counted
+ */
+export function findEarliestResponse(
+  candidates: ResponseCandidate[],
+  events: Set<ResponseEventType>,
+  isResponder: (login: string) => boolean
+): FirstResponse | null {
+  const counted = candidates.filter(candidate =>
+    events.has(candidate.event) && isResponder(candidate.author)
+  );
+
+  if (counted.length === 0) return null;
+
+  const earliest = counted.reduce((min, curr) =>
+    curr.date < min.date ? curr : min
+  );
+
+  return {
+    respondedAt: earliest.date,
+    respondedBy: earliest.author,
+    event: earliest.event,
+  };
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import type { OctokitResponse } from '@octokit/types';
+import { RequestScheduler } from './scheduler.ts';
+
+/**
+ * A failed Octokit request as the scheduler sees it
+ */
+function requestError(status: number, message: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(message), { status, response: { headers } });
+}
+
+/**
+ * A send function that plays back the given outcomes in order (errors are thrown)
+ */
+function scriptedSend(outcomes: Array<OctokitResponse<unknown> | Error>) {
+  const send = async () => {
+    send.calls++;
+    const outcome = outcomes[Math.min(send.calls, outcomes.length) - 1];
+    if (outcome instanceof Error) throw outcome;
+    return outcome;
+  };
+  send.calls = 0;
+  return send;
+}
+
+const ok: OctokitResponse<unknown> = { status: 200, url: 'https://api.github.com/repos', headers: {}, data: 'ok' };
+
+let clock: number;
+let sleeps: number[];
+
+// Sleeping advances a fake clock instead of waiting
+const sleep = async (ms: number) => {
+  sleeps.push(ms);
+  clock += ms;
+};
+
+beforeEach(() => {
+  clock = 1_700_000_000_000;
+  sleeps = [];
+  spyOn(Date, 'now').mockImplementation(() => clock);
+  spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('RequestScheduler', () => {
+  test('retries server errors with exponential backoff', async () => {
+    const scheduler = new RequestScheduler({}, sleep);
+    const send = scriptedSend([requestError(502, 'Bad Gateway'), requestError(503, 'Unavailable'), ok]);
+
+    expect(await scheduler.schedule('core', 'GET /repos', send)).toBe(ok);
+    expect(send.calls).toBe(3);
+    expect(sleeps).toHaveLength(2);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(1000);
+    expect(sleeps[0]).toBeLessThan(2000);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(2000);
+    expect(sleeps[1]).toBeLessThan(3000);
+  });
+
+  test('throws the last error once the retries are used up', async () => {
+    const scheduler = new RequestScheduler({ maxRetries: 2 }, sleep);
+    const send = scriptedSend([requestError(500, 'Server Error')]);
+
+    await expect(scheduler.schedule('core', 'GET /repos', send)).rejects.toThrow('Server Error');
+    expect(send.calls).toBe(3);
+  });
+
+  test('does not retry client errors', async () => {
+    const scheduler = new RequestScheduler({}, sleep);
+    const send = scriptedSend([requestError(404, 'Not Found')]);
+
+    await expect(scheduler.schedule('core', 'GET /repos', send)).rejects.toThrow('Not Found');
+    expect(send.calls).toBe(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  test('does not retry failures without an HTTP status', async () => {
+    const scheduler = new RequestScheduler({}, sleep);
+    const send = scriptedSend([new TypeError('fetch failed'), ok]);
+
+    await expect(scheduler.schedule('core', 'GET /repos', send)).rejects.toThrow('fetch failed');
+    expect(send.calls).toBe(1);
+  });
+
+  test('retries a GraphQL response with a RATE_LIMITED error', async () => {
+    const scheduler = new RequestScheduler({}, sleep);
+    const limited = { ...ok, url: 'https://api.github.com/graphql', data: { errors: [{ type: 'RATE_LIMITED', message: 'API rate limit exceeded' }] } };
+    const send = scriptedSend([limited, ok]);
+
+    expect(await scheduler.schedule('graphql', 'POST /graphql', send)).toBe(ok);
+    expect(sleeps).toEqual([60_000]);
+  });
+
+  test('waits for retry-after on a secondary rate limit', async () => {
+    const scheduler = new RequestScheduler({}, sleep);
+    const send = scriptedSend([requestError(403, 'You have exceeded a secondary rate limit', { 'retry-after': '30' }), ok]);
+
+    expect(await scheduler.schedule('search', 'GET /search/issues', send)).toBe(ok);
+    expect(sleeps).toEqual([30_000]);
+  });
+
+  test('pauses every request during a secondary rate limit', async () => {
+    const pending: Array<() => void> = [];
+    const scheduler = new RequestScheduler({}, ms => {
+      sleeps.push(ms);
+      return new Promise(resolve => pending.push(() => { clock += ms; resolve(); }));
+    });
+
+    const limited = scheduler.schedule('core', 'GET /a', scriptedSend([requestError(429, 'Too Many Requests', { 'retry-after': '60' }), ok]));
+    await Bun.sleep(0);
+
+    // A request sent while the first one waits out the limit waits as well
+    const other = scriptedSend([ok]);
+    const waiting = scheduler.schedule('core', 'GET /b', other);
+    await Bun.sleep(0);
+    expect(other.calls).toBe(0);
+    expect(sleeps).toEqual([60_000, 60_000]);
+
+    pending.forEach(release => release());
+    expect(await limited).toBe(ok);
+    expect(await waiting).toBe(ok);
+    expect(other.calls).toBe(1);
+  });
+
+  test('waits for the reset once a limit has run out', async () => {
+    const scheduler = new RequestScheduler({}, sleep);
+    const resetAt = clock + 120_000;
+    const exhausted = {
+      ...ok,
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt / 1000), 'x-ratelimit-resource': 'search' },
+    };
+
+    await scheduler.schedule('search', 'GET /search/issues', scriptedSend([exhausted]));
+    await scheduler.schedule('core', 'GET /repos', scriptedSend([ok]));
+    expect(sleeps).toEqual([]);
+
+    await scheduler.schedule('search', 'GET /search/issues', scriptedSend([ok]));
+    expect(sleeps).toEqual([121_000]);
+  });
+
+  test('fails instead of waiting longer than maxWaitMinutes', async () => {
+    const scheduler = new RequestScheduler({ maxWaitMinutes: 1 }, sleep);
+    const send = scriptedSend([requestError(403, 'secondary rate limit', { 'retry-after': '120' }), ok]);
+
+    await expect(scheduler.schedule('core', 'GET /repos', send)).rejects.toThrow(/maxWaitMinutes/);
+    expect(send.calls).toBe(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  test('keeps no more than maxConcurrentRequests in flight', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentRequests: 2 }, sleep);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const send = async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await Bun.sleep(1);
+      inFlight--;
+      return ok;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, (_, index) => scheduler.schedule('core', `GET /${index}`, send)));
+    expect(maxInFlight).toBe(2);
+  });
+});
@@ -0,0 +1,284 @@
+import { Octokit } from '@octokit/rest';
+import type { OctokitResponse, ResponseHeaders } from '@octokit/types';
+import type { Config, RateLimitConfig } from './types.ts';
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_MAX_WAIT_MINUTES = 60;
+
+// Backoff for server errors doubles from this on every attempt
+const BASE_BACKOFF_MS = 1000;
+// GitHub asks to wait at least a minute after a secondary rate limit without retry-after
+const SECONDARY_LIMIT_BACKOFF_MS = 60_000;
+// Margin after a reset time, since GitHub's clock and ours differ slightly
+const RESET_MARGIN_MS = 1000;
+
+/**
+ * Rate limit buckets GitHub counts requests against
+ */
+type RateLimitResource = 'core' | 'search' | 'graphql';
+
+interface RateLimitState {
+  remaining: number;
+  resetAt: number;  // Epoch milliseconds
+}
+
+/**
+ * A failed request with an HTTP status, as thrown by Octokit (a RequestError) or replayed from fixtures
+ */
+export interface HttpError extends Error {
+  status: number;
+  response?: { headers: ResponseHeaders };
+}
+
+/**
+ * Why a failed request is retried, and after how long
+ */
+interface RetryDecision {
+  reason: string;
+  delayMs: number;
+  pauseAll: boolean;  // Secondary limits apply to the whole token, so every request waits
+}
+
+/**
+ * The rate limit bucket of a request, from its URL template
+ */
+function getResource(url: string): RateLimitResource {
+  if (url.startsWith('/search/')) return 'search';
+  if (url === '/graphql') return 'graphql';
+  return 'core';
+}
+
+/**
+ * Whether a thrown value is a failed request with an HTTP status
+ */
+export function hasStatus(error: unknown): error is HttpError {
+  return error instanceof Error && 'status' in error && typeof error.status === 'number';
+}
+
+/**
+ * Whether a GraphQL response carries a RATE_LIMITED error
+ */
+function isGraphQLRateLimited(response: OctokitResponse<unknown>): boolean {
+  const { data } = response;
+  const errors: unknown = typeof data === 'object' && data !== null && 'errors' in data ? data.errors : undefined;
+  return Array.isArray(errors) && errors.some((error: unknown) =>
+    typeof error === 'object' && error !== null && 'type' in error && error.type === 'RATE_LIMITED'
+  );
+}
+
+/**
+ * Format a wait for the log, e.g. "45s" or "12m"
+ */
+function formatWait(ms: number): string {
+  return ms < 60_000 ? `${Math.ceil(ms / 1000)}s` : `${Math.ceil(ms / 60_000)}m`;
+}
+
+/**
+ * Sends every Octokit request through one queue that tracks the core, search and GraphQL
+ * rate limits from response headers. A request waits until reset when its limit has run out,
+ * server errors and secondary (abuse) limits are retried with backoff, and no more than
+ * maxConcurrentRequests are in flight. Errors that remain after the retries are thrown.
+ */
+export class RequestScheduler {
+  private maxConcurrent: number;
+  private maxRetries: number;
+  private maxWaitMs: number;
+  private limits: Map<RateLimitResource, RateLimitState>;
+  private pausedUntil: number;
+  private active: number;
+  private queue: Array<() => void>;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(config: RateLimitConfig = {}, sleep: (ms: number) => Promise<void> = Bun.sleep) {
+    this.maxConcurrent = config.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxWaitMs = (config.maxWaitMinutes ?? DEFAULT_MAX_WAIT_MINUTES) * 60_000;
+    this.limits = new Map();
+    this.pausedUntil = 0;
+    this.active = 0;
+    this.queue = [];
+    this.sleep = sleep;
+  }
+
+  /**
+   * Route all requests of a client (REST, pagination and GraphQL) through the scheduler
+   */
+  attach(octokit: Octokit): void {
+    octokit.hook.wrap('request', (request, options) => {
+      const { method, url } = octokit.request.endpoint.parse(options);
+      const label = `${method} ${url.replace(options.baseUrl, '')}`;
+      return this.schedule(getResource(String(options.url)), label, async () => request(options));
+    });
+  }
+
+  /**
+   * Send a request once a slot is free and its rate limit allows, retrying transient failures
+   */
+  async schedule<T extends OctokitResponse<unknown>>(resource: RateLimitResource, label: string, send: () => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        await this.waitForLimit(resource);
+
+        let decision: RetryDecision | null;
+        let failure: unknown;
+        try {
+          const response = await send();
+          this.updateLimits(resource, response.headers);
+          if (!isGraphQLRateLimited(response)) return response;
+
+          // GraphQL reports an exhausted limit as an error in a successful response
+          decision = this.waitForReset('graphql', 'GraphQL rate limit exceeded');
+          failure = new Error(`${label}: GraphQL rate limit exceeded`);
+        } catch (error) {
+          // Failures without an HTTP status (e.g. a network error) are not retried
+          if (!hasStatus(error)) throw error;
+          this.updateLimits(resource, error.response?.headers);
+          decision = this.decideRetry(resource, error, attempt);
+          failure = error;
+        }
+
+        if (!decision || attempt > this.maxRetries) throw failure;
+        if (decision.delayMs > this.maxWaitMs) {
+          throw new Error(
+            `${label}: ${decision.reason}, the wait of ${formatWait(decision.delayMs)} is longer than ` +
+            `rateLimits.maxWaitMinutes (${formatWait(this.maxWaitMs)})`
+          );
+        }
+
+        console.warn(`  ↻ ${label}: ${decision.reason}, retrying in ${formatWait(decision.delayMs)} (retry ${attempt}/${this.maxRetries})`);
+        if (decision.pauseAll) {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + decision.delayMs);
+        }
+        await this.sleep(decision.delayMs);
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Wait for a free slot when maxConcurrentRequests are in flight
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot over directly
+    await new Promise<void>(resolve => this.queue.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Sleep until the limit resets when it has run out, or while a secondary limit pauses all requests
+   */
+  private async waitForLimit(resource: RateLimitResource): Promise<void> {
+    const now = Date.now();
+    const limit = this.limits.get(resource);
+
+    if (limit && limit.remaining === 0 && limit.resetAt > now) {
+      const waitMs = limit.resetAt - now + RESET_MARGIN_MS;
+      if (waitMs > this.maxWaitMs) {
+        throw new Error(
+          `The ${resource} rate limit is exhausted until ${new Date(limit.resetAt).toLocaleTimeString()}, ` +
+          `longer than rateLimits.maxWaitMinutes (${formatWait(this.maxWaitMs)})`
+        );
+      }
+      console.warn(`⏳ The ${resource} rate limit is exhausted, waiting ${formatWait(waitMs)} until it resets at ${new Date(limit.resetAt).toLocaleTimeString()}`);
+      await this.sleep(waitMs);
+      // Assume a full bucket after the reset until the next response says otherwise
+      this.limits.delete(resource);
+    }
+
+    if (this.pausedUntil > Date.now()) {
+      await this.sleep(this.pausedUntil - Date.now());
+    }
+  }
+
+  /**
+   * Remember the remaining requests and reset time reported in the response headers
+   */
+  private updateLimits(resource: RateLimitResource, headers?: ResponseHeaders): void {
+    const remaining = headers?.['x-ratelimit-remaining'];
+    const reset = headers?.['x-ratelimit-reset'];
+    if (remaining === undefined || reset === undefined) return;
+
+    const reported = headers?.['x-ratelimit-resource'];
+    const bucket = reported === 'core' || reported === 'search' || reported === 'graphql' ? reported : resource;
+    this.limits.set(bucket, { remaining: Number(remaining), resetAt: Number(reset) * 1000 });
+  }
+
+  /**
+   * Retry after the reset of an exhausted limit, or after a minute when the reset time is unknown
+   */
+  private waitForReset(resource: RateLimitResource, reason: string): RetryDecision {
+    const limit = this.limits.get(resource);
+    const delayMs = limit ? Math.max(limit.resetAt - Date.now(), 0) + RESET_MARGIN_MS : SECONDARY_LIMIT_BACKOFF_MS;
+    return { reason, delayMs, pauseAll: false };
+  }
+
+  /**
+   * Decide whether a failed request is worth retrying: exhausted primary limits wait for the reset,
+   * secondary limits wait for retry-after (or a minute), server errors back off exponentially.
+   * Anything else (404, validation errors, bad credentials) fails right away.
+   */
+  private decideRetry(resource: RateLimitResource, error: HttpError, attempt: number): RetryDecision | null {
+    const { status, message } = error;
+    const headers: ResponseHeaders = error.response?.headers ?? {};
+
+    if (status === 403 || status === 429) {
+      const retryAfter = Number(headers['retry-after']);
+      if (retryAfter > 0 || /secondary rate limit|abuse/i.test(message)) {
+        return {
+          reason: `secondary rate limit (${status})`,
+          delayMs: retryAfter > 0 ? retryAfter * 1000 : SECONDARY_LIMIT_BACKOFF_MS,
+          pauseAll: true,
+        };
+      }
+
+      if (String(headers['x-ratelimit-remaining']) === '0') {
+        return this.waitForReset(resource, `${resource} rate limit exceeded`);
+      }
+      return null;
+    }
+
+    if (status >= 500) {
+      return {
+        reason: `server error (${status})`,
+        delayMs: BASE_BACKOFF_MS * 2 ** (attempt - 1) + Math.floor(Math.random() * BASE_BACKOFF_MS),
+        pauseAll: false,
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Create a GitHub client whose requests all go through a rate-limit-aware scheduler
+ */
+export function createOctokit(config: Config): Octokit {
+  const octokit = new Octokit({ auth: config.githubToken });
+  new RequestScheduler(config.rateLimits).attach(octokit);
+  return octokit;
+}
+
+/**
+ * Describe the scheduler settings in one line for the startup log
+ */
+export function describeRateLimits(config: RateLimitConfig = {}): string {
+  return `${config.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS} concurrent requests, ` +
+    `${config.maxRetries ?? DEFAULT_MAX_RETRIES} retries, ` +
+    `waits up to ${config.maxWaitMinutes ?? DEFAULT_MAX_WAIT_MINUTES} minutes for a reset`;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { formatRepositoryBreakdownBlocks, formatResponderBlocks, formatSlaAlertForSlack } from './slack.ts';
+import { testBacklogItems, testItem, testReport } from './test-data.ts';
+
+describe('formatSlaAlertForSlack', () => {
+  test('lists at most 20 items', () => {
+    const lines = formatSlaAlertForSlack(testBacklogItems(25), 8).trimEnd().split('\n');
+
+    expect(lines[0]).toBe('*⏰ 25 items are about to miss the 8h response target*');
+    expect(lines.slice(1, -1)).toHaveLength(20);
+    expect(lines[lines.length - 1]).toBe('_...and 5 more_');
+  });
+});
+
+describe('formatRepositoryBreakdownBlocks', () => {
+  test('has one linked line per repository with a target indicator and the weakest week', () => {
+    const report = testReport([
+      testItem({ number: 1 }),
+      testItem({ number: 2, weekStarting: new Date('2024-01-08T00:00:00Z'), respondedWithinOneDay: false, responseTimeHours: 30 }),
+      testItem({ repository: 'web', number: 3, url: 'https://github.com/acme/web/pull/3' }),
+    ]);
+
+    const blocks = formatRepositoryBreakdownBlocks(report, 80);
+
+    expect(blocks).toEqual([{
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: '*📦 By repository - responded within 1 business day* (target 80%)\n' +
+          '🔴 *<https://github.com/acme/api|api>*  50.0% (1/2) · median 15.50 h · weakest week 2024-01-08 (0.0%)\n' +
+          '🟢 *<https://github.com/acme/web|web>*  100.0% (1/1) · median 1.00 h',
+      },
+    }]);
+  });
+
+  test('splits many repositories into sections within the Slack limit', () => {
+    const report = testReport(Array.from({ length: 100 }, (_, index) =>
+      testItem({ repository: `repository-${index}`, number: index, url: `https://github.com/acme/repository-${index}/issues/${index}` })
+    ));
+
+    const texts = formatRepositoryBreakdownBlocks(report).map(block => block.type === 'section' ? block.text!.text : '');
+
+    expect(texts.length).toBeGreaterThan(1);
+    expect(texts.every(text => text.length <= 3000)).toBe(true);
+    expect(texts.join('\n').split('\n')).toHaveLength(101);
+  });
+});
+
+describe('formatResponderBlocks', () => {
+  test('links the top responders and notes the rest', () => {
+    const report = testReport(Array.from({ length: 12 }, (_, index) => testItem({ number: index, respondedBy: `responder-${index}` })));
+
+    const [section, context] = formatResponderBlocks(report.responderReport);
+    const lines = section.type === 'section' ? section.text!.text.split('\n') : [];
+
+    expect(lines[0]).toBe('*👥 Responder leaderboard - first responses*');
+    expect(lines[1]).toBe('1. *<https://github.com/responder-0|responder-0>*  1 first responses (8.3%) · median 1.00 h · api');
+    expect(lines).toHaveLength(12);
+    expect(lines[11]).toBe('_...and 2 more_');
+    expect(context.type).toBe('context');
+  });
+});
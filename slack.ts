@@ -1,6 +1,31 @@
-import type { IssueData, OverallMetrics, WeeklySummary } from './types.ts';
+import type { BacklogItem, BacklogReport, ContributorReport, IssueData, Notifier, NotifierTemplate, OverallMetrics, ReportData, ResponderReport, WeeklySummary, WeeklyTrend } from './types.ts';
 import { formatDate } from './utils.ts';
-import { generateCSV } from './output.ts';
+import {
+  generateCSV,
+  generateBacklogCSV,
+  formatHours,
+  formatWeekLine,
+  getOneDayPercentage,
+  getTargetStatus,
+  findWorstItems,
+  DEFAULT_TARGET_PERCENTAGE,
+} from './output.ts';
+import { findWeakestWeek } from './metrics.ts';
+import { describeWorkloadConcentration } from './responders.ts';
+import { describeContributorRetention } from './contributors.ts';
+import { DEFAULT_CALENDAR } from './calendar.ts';
+
+// Slack rejects section and context texts longer than this
+const MAX_BLOCK_TEXT = 3000;
+
+/**
+ * A Slack Block Kit block (only the fields used by this tool are typed)
+ */
+export type SlackBlock =
+  | { type: 'header'; text: { type: 'plain_text'; text: string } }
+  | { type: 'section'; text?: { type: 'mrkdwn'; text: string }; fields?: Array<{ type: 'mrkdwn'; text: string }> }
+  | { type: 'context'; elements: Array<{ type: 'mrkdwn'; text: string }> }
+  | { type: 'divider' };
 
 interface SlackMessageResponse {
   ok: boolean;
@@ -23,67 +48,228 @@ interface SlackCompleteUploadResponse {
 }
 
 /**
- * Format the weekly summary as a text block for Slack
+ * Escape text for Slack mrkdwn (&, < and > are control characters)
+ */
+function escapeSlackText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const TARGET_INDICATORS = { good: '🟢', warning: '🟡', bad: '🔴' };
+
+/**
+ * Emoji indicator for a percentage against the target
+ */
+function targetIndicator(percentage: number, targetPercentage: number): string {
+  return TARGET_INDICATORS[getTargetStatus(percentage, targetPercentage)];
+}
+
+/**
+ * Truncate text to Slack's per-element limit
+ */
+function truncateBlockText(text: string): string {
+  return text.length > MAX_BLOCK_TEXT ? text.slice(0, MAX_BLOCK_TEXT - 1) + '…' : text;
+}
+
+/**
+ * Build a mrkdwn section block, truncating text to Slack's section limit
+ */
+function sectionBlock(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text: truncateBlockText(text) } };
+}
+
+/**
+ * Build a mrkdwn context block, truncating text to Slack's element limit
  */
-export function formatWeeklySummaryForSlack(
+function contextBlock(text: string): SlackBlock {
+  return { type: 'context', elements: [{ type: 'mrkdwn', text: truncateBlockText(text) }] };
+}
+
+/**
+ * Format overall metrics as Block Kit blocks: issue and PR stats as fields, plus response times
+ */
+export function formatOverallMetricsBlocks(
+  metrics: OverallMetrics,
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
+): SlackBlock[] {
+  const lifecycle = metrics.lifecycle;
+
+  const fields = [
+    `*Issues*\n${metrics.totalIssues} total · ${metrics.issuesResponded} responded (${metrics.issueResponseRate.toFixed(1)}%)\n` +
+    `${targetIndicator(metrics.issueOneDayPercentage, targetPercentage)} ${metrics.issuesWithinOneDay} within 1 day (${metrics.issueOneDayPercentage.toFixed(1)}%)`,
+    `*Pull Requests*\n${metrics.totalPRs} total · ${metrics.prsResponded} responded (${metrics.prResponseRate.toFixed(1)}%)\n` +
+    `${targetIndicator(metrics.prOneDayPercentage, targetPercentage)} ${metrics.prsWithinOneDay} within 1 day (${metrics.prOneDayPercentage.toFixed(1)}%)`,
+    `*Response time (working hours)*\nmedian ${formatHours(metrics.medianResponseTimeHours)} h · p90 ${formatHours(metrics.p90ResponseTimeHours)} h · p95 ${formatHours(metrics.p95ResponseTimeHours)} h`,
+    `*Lifecycle*\n${lifecycle.open} open · ${lifecycle.closed} closed · ${lifecycle.merged} merged\n` +
+    `PR merge rate ${lifecycle.prMergeRate.toFixed(1)}% · median merge ${formatHours(lifecycle.medianTimeToMergeHours)} h`,
+  ];
+
+  const distribution = metrics.responseTimeHistogram
+    .map(bucket => `${escapeSlackText(bucket.label)}: ${bucket.count}`)
+    .join(' · ');
+
+  return [
+    { type: 'section', fields: fields.map(text => ({ type: 'mrkdwn', text })) },
+    contextBlock(`Distribution: ${distribution}`),
+  ];
+}
+
+/**
+ * Format the weekly summary as a Block Kit section, one line per week with a target indicator
+ * and the changes against the previous week and the trailing average when history is available
+ */
+export function formatWeeklySummaryBlocks(
   weeklySummary: WeeklySummary[],
-  startDate: Date,
-  endDate: Date
-): string {
-  let text = '```\n';
-  text += '📅 WEEKLY SUMMARY - Issues/PRs Responded Within 1 Business Day\n\n';
-  text += 'Week Starting       | Total | Within 1 Day | Percentage\n';
-  text += '-'.repeat(60) + '\n';
-  
-  for (const week of weeklySummary) {
-    const weekStr = formatDate(week.weekStarting).padEnd(18);
-    const totalStr = week.totalIssues.toString().padStart(5);
-    const respondedStr = week.respondedWithinOneDay.toString().padStart(12);
-    const percentageStr = `${week.percentage.toFixed(1)}%`.padStart(10);
-    
-    text += `${weekStr} | ${totalStr} | ${respondedStr} | ${percentageStr}\n`;
+  trends: WeeklyTrend[] = [],
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE,
+  timezone: string = DEFAULT_CALENDAR.timezone
+): SlackBlock[] {
+  const lines = weeklySummary.map(week =>
+    `${targetIndicator(week.percentage, targetPercentage)} *${formatDate(week.weekStarting, timezone)}*  ${formatWeekLine(week, trends)}`
+  );
+
+  return [sectionBlock(`*📅 Weekly - responded within 1 business day* (target ${targetPercentage}%)\n${lines.join('\n')}`)];
+}
+
+/**
+ * Format the worst-offending missed items as a Block Kit section with links
+ */
+export function formatWorstItemsBlocks(data: IssueData[], maxItems: number = 5): SlackBlock[] {
+  const missedCount = data.filter(item => !item.respondedWithinOneDay).length;
+  if (missedCount === 0) return [];
+
+  const worst = findWorstItems(data, maxItems);
+
+  const lines = worst.map(item => {
+    const response = item.responseTimeHours !== null ? `${item.responseTimeHours.toFixed(1)}h` : 'no response';
+    return `• <${item.url}|${item.repository}#${item.number}> ${escapeSlackText(item.title)} _(${item.type.toUpperCase()}, ${response})_`;
+  });
+
+  return [sectionBlock(`*⚠️ Slowest of ${missedCount} missed items*\n${lines.join('\n')}`)];
+}
+
+/**
+ * Format first-time and returning contributors as a Block Kit section, comparing how fast
+ * first contributions got a response with repeat contributors
+ */
+export function formatContributorBlocks(report: ContributorReport): SlackBlock[] {
+  if (report.authors === 0) return [];
+
+  const first = report.firstContributions;
+  const repeat = report.repeatContributions;
+
+  return [sectionBlock(
+    `*🌱 Contributors*\n${describeContributorRetention(report)}\n` +
+    `First contributions: ${first.percentage.toFixed(1)}% within 1 day · median ${formatHours(first.medianResponseTimeHours)} h\n` +
+    `Repeat contributors: ${repeat.percentage.toFixed(1)}% within 1 day · median ${formatHours(repeat.medianResponseTimeHours)} h`
+  )];
+}
+
+/**
+ * Build the Block Kit report: header, date range, overall metrics (full report only),
+ * weekly summary, contributors and links to the worst-offending items
+ */
+export function buildReportBlocks(
+  report: ReportData,
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE,
+  includeOverall: boolean = true
+): SlackBlock[] {
+  return [
+    { type: 'header', text: { type: 'plain_text', text: 'GitHub Response Time Analysis' } },
+    contextBlock(`${formatDate(report.startDate, report.timezone)} to ${formatDate(report.endDate, report.timezone)} · times in working hours`),
+    ...(includeOverall ? formatOverallMetricsBlocks(report.metrics, targetPercentage) : []),
+    { type: 'divider' },
+    ...formatWeeklySummaryBlocks(report.weeklySummary, report.trends, targetPercentage, report.timezone),
+    ...formatContributorBlocks(report.contributorReport),
+    ...formatWorstItemsBlocks(report.items),
+  ];
+}
+
+/**
+ * Plain-text fallback shown in notifications for Block Kit reports
+ */
+export function formatReportFallbackText(report: ReportData): string {
+  const total = report.metrics.totalIssues + report.metrics.totalPRs;
+  return `GitHub Response Time Analysis (${formatDate(report.startDate, report.timezone)} to ${formatDate(report.endDate, report.timezone)}): ` +
+    `${getOneDayPercentage(report.metrics).toFixed(1)}% of ${total} issues/PRs responded within 1 business day`;
+}
+
+/**
+ * Link to a repository on GitHub, taken from the URL of one of its items
+ */
+function repositoryLink(repository: string, items: IssueData[]): string {
+  const url = items.find(item => item.repository === repository)?.url.replace(/\/(issues|pull)\/\d+$/, '');
+  return url ? `<${url}|${escapeSlackText(repository)}>` : escapeSlackText(repository);
+}
+
+/**
+ * Build mrkdwn sections for a heading and its lines, starting a new section at Slack's section limit
+ */
+function linesToSectionBlocks(heading: string, lines: string[]): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+  let text = heading;
+
+  for (const line of lines) {
+    if (text.length + 1 + line.length > MAX_BLOCK_TEXT) {
+      blocks.push(sectionBlock(text));
+      text = line;
+    } else {
+      text += `\n${line}`;
+    }
   }
-  
-  text += '='.repeat(60) + '\n';
-  text += '```';
-  
-  return text;
+  blocks.push(sectionBlock(text));
+
+  return blocks;
 }
 
 /**
- * Format overall metrics for Slack
+ * Format the per-repository breakdown as Block Kit sections, one line per repository with a link,
+ * a target indicator and its weakest week (like the weekly lines)
  */
-export function formatOverallMetricsForSlack(metrics: OverallMetrics): string {
-  let text = '```\n';
-  text += '📊 OVERALL METRICS\n\n';
-  
-  text += 'Issues:\n';
-  text += `  Total: ${metrics.totalIssues}\n`;
-  text += `  Responded: ${metrics.issuesResponded} (${metrics.issueResponseRate.toFixed(1)}%)\n`;
-  text += `  Within 1 Day: ${metrics.issuesWithinOneDay} (${metrics.issueOneDayPercentage.toFixed(1)}%)\n\n`;
-  
-  text += 'Pull Requests:\n';
-  text += `  Total: ${metrics.totalPRs}\n`;
-  text += `  Responded: ${metrics.prsResponded} (${metrics.prResponseRate.toFixed(1)}%)\n`;
-  text += `  Within 1 Day: ${metrics.prsWithinOneDay} (${metrics.prOneDayPercentage.toFixed(1)}%)\n`;
-  
-  if (metrics.meanResponseTimeHours !== null) {
-    text += '\n⏱️  RESPONSE TIME STATISTICS (in hours)\n\n';
-    text += `  Minimum: ${metrics.minResponseTimeHours?.toFixed(2)} hours\n`;
-    text += `  Maximum: ${metrics.maxResponseTimeHours?.toFixed(2)} hours\n`;
-    text += `  Mean: ${metrics.meanResponseTimeHours?.toFixed(2)} hours\n`;
-    text += `  Median: ${metrics.medianResponseTimeHours?.toFixed(2)} hours\n`;
+export function formatRepositoryBreakdownBlocks(
+  report: ReportData,
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
+): SlackBlock[] {
+  const lines = report.repositoryMetrics.map(({ repository, metrics, weeklySummary }) => {
+    const percentage = getOneDayPercentage(metrics);
+    const withinOneDay = metrics.issuesWithinOneDay + metrics.prsWithinOneDay;
+    let line = `${targetIndicator(percentage, targetPercentage)} *${repositoryLink(repository, report.items)}*  ` +
+      `${percentage.toFixed(1)}% (${withinOneDay}/${metrics.totalIssues + metrics.totalPRs}) · median ${formatHours(metrics.medianResponseTimeHours)} h`;
+
+    const weakest = weeklySummary.length > 1 ? findWeakestWeek(weeklySummary) : null;
+    if (weakest) {
+      line += ` · weakest week ${formatDate(weakest.weekStarting, report.timezone)} (${weakest.percentage.toFixed(1)}%)`;
+    }
+    return line;
+  });
+
+  return linesToSectionBlocks(`*📦 By repository - responded within 1 business day* (target ${targetPercentage}%)`, lines);
+}
+
+/**
+ * Format the responder leaderboard (top 10) as Block Kit sections with profile links,
+ * followed by the workload concentration
+ */
+export function formatResponderBlocks(report: ResponderReport, limit: number = 10): SlackBlock[] {
+  const lines = report.responders.slice(0, limit).map((responder, index) =>
+    `${index + 1}. *<https://github.com/${responder.login}|${escapeSlackText(responder.login)}>*  ` +
+    `${responder.firstResponses} first responses (${responder.sharePercentage.toFixed(1)}%) · ` +
+    `median ${formatHours(responder.medianResponseTimeHours)} h · ${escapeSlackText(responder.repositories.join(', '))}`
+  );
+  if (report.responders.length > limit) {
+    lines.push(`_...and ${report.responders.length - limit} more_`);
   }
-  
-  text += '```';
-  
-  return text;
+
+  return [
+    ...linesToSectionBlocks('*👥 Responder leaderboard - first responses*', lines),
+    contextBlock(describeWorkloadConcentration(report)),
+  ];
 }
 
 /**
- * Post message to Slack webhook (legacy method)
+ * Post message to Slack webhook (legacy method).
+ * With blocks, the message is the plain-text fallback used in notifications.
  */
-export async function postToSlack(webhookUrl: string, message: string): Promise<void> {
+export async function postToSlack(webhookUrl: string, message: string, blocks?: SlackBlock[]): Promise<void> {
   const response = await fetch(webhookUrl, {
     method: 'POST',
     headers: {
@@ -92,6 +278,7 @@ export async function postToSlack(webhookUrl: string, message: string): Promise<
     body: JSON.stringify({
       text: message,
       mrkdwn: true,
+      ...(blocks && { blocks }),
     }),
   });
 
@@ -101,13 +288,15 @@ export async function postToSlack(webhookUrl: string, message: string): Promise<
 }
 
 /**
- * Post message to Slack using Web API (returns thread timestamp for threading)
+ * Post message to Slack using Web API (returns thread timestamp for threading).
+ * With blocks, the message is the plain-text fallback used in notifications.
  */
 export async function postMessageToSlack(
   botToken: string,
   channel: string,
   message: string,
-  threadTs?: string
+  threadTs?: string,
+  blocks?: SlackBlock[]
 ): Promise<string> {
   const response = await fetch('https://slack.com/api/chat.postMessage', {
     method: 'POST',
@@ -120,6 +309,7 @@ export async function postMessageToSlack(
       text: message,
       mrkdwn: true,
       ...(threadTs && { thread_ts: threadTs }),
+      ...(blocks && { blocks }),
     }),
   });
 
@@ -203,57 +393,82 @@ export async function uploadFileToSlack(
 }
 
 /**
- * Post weekly summary to Slack (webhook version)
+ * Post weekly summary to Slack (webhook version).
+ * The per-repository breakdown follows as a separate message.
  */
 export async function postWeeklySummaryToSlack(
   webhookUrl: string,
-  weeklySummary: WeeklySummary[],
-  startDate: Date,
-  endDate: Date
+  report: ReportData,
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
 ): Promise<void> {
-  const message = formatWeeklySummaryForSlack(weeklySummary, startDate, endDate);
-  await postToSlack(webhookUrl, message);
+  await postToSlack(webhookUrl, formatReportFallbackText(report), buildReportBlocks(report, targetPercentage, false));
+  if (report.repositoryMetrics.length > 0) {
+    await postToSlack(webhookUrl, 'Responses by repository', formatRepositoryBreakdownBlocks(report, targetPercentage));
+  }
 }
 
 /**
- * Post full report to Slack (webhook version)
+ * Post full report to Slack (webhook version).
+ * The per-repository breakdown and responder leaderboard follow as a separate message.
  */
 export async function postFullReportToSlack(
   webhookUrl: string,
-  metrics: OverallMetrics,
-  weeklySummary: WeeklySummary[],
-  startDate: Date,
-  endDate: Date
+  report: ReportData,
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
 ): Promise<void> {
-  const dateRange = `*GitHub Response Time Analysis*\n_${formatDate(startDate)} to ${formatDate(endDate)}_\n\n`;
-  const metricsText = formatOverallMetricsForSlack(metrics);
-  const summaryText = formatWeeklySummaryForSlack(weeklySummary, startDate, endDate);
-  
-  const fullMessage = dateRange + metricsText + '\n\n' + summaryText;
-  await postToSlack(webhookUrl, fullMessage);
+  await postToSlack(webhookUrl, formatReportFallbackText(report), buildReportBlocks(report, targetPercentage));
+
+  const details: SlackBlock[] = [];
+  if (report.repositoryMetrics.length > 0) {
+    details.push(...formatRepositoryBreakdownBlocks(report, targetPercentage));
+  }
+  if (report.responderReport.responders.length > 0) {
+    if (details.length > 0) details.push({ type: 'divider' });
+    details.push(...formatResponderBlocks(report.responderReport));
+  }
+  if (details.length > 0) {
+    await postToSlack(webhookUrl, 'Responses by repository and responder', details);
+  }
 }
 
 /**
- * Post weekly summary to Slack with CSV file attachment using Web API
+ * Post the report to Slack with CSV file attachment using Web API
  * Requires SLACK_BOT_TOKEN and SLACK_CHANNEL_ID environment variables
  * 
- * The CSV attachment only includes issues/PRs from the last week that didn't respond within 1 business day
+ * The CSV attachment only includes issues/PRs from the last week that didn't respond within 1 business day.
+ * The per-repository breakdown (and the responder leaderboard for the full report) is posted as threaded follow-up messages.
  */
 export async function postWeeklySummaryWithFileToSlack(
   botToken: string,
   channel: string,
-  weeklySummary: WeeklySummary[],
-  data: IssueData[],
-  startDate: Date,
-  endDate: Date
+  report: ReportData,
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE,
+  template: NotifierTemplate = 'summary'
 ): Promise<void> {
-  const dateRange = `*GitHub Response Time Analysis*\n_${formatDate(startDate)} to ${formatDate(endDate)}_\n\n`;
-  const summaryText = formatWeeklySummaryForSlack(weeklySummary, startDate, endDate);
-  
-  const message = dateRange + summaryText;
-  
+  const data = report.items;
+
   // Post the main message and get the thread timestamp
-  const threadTs = await postMessageToSlack(botToken, channel, message);
+  const threadTs = await postMessageToSlack(
+    botToken,
+    channel,
+    formatReportFallbackText(report),
+    undefined,
+    buildReportBlocks(report, targetPercentage, template === 'full')
+  );
+  
+  if (report.repositoryMetrics.length > 0) {
+    await postMessageToSlack(
+      botToken,
+      channel,
+      'Responses by repository',
+      threadTs,
+      formatRepositoryBreakdownBlocks(report, targetPercentage)
+    );
+  }
+
+  if (template === 'full' && report.responderReport.responders.length > 0) {
+    await postMessageToSlack(botToken, channel, 'Responder leaderboard', threadTs, formatResponderBlocks(report.responderReport));
+  }
   
   // Find the most recent week from the data
   const lastWeekStart = data.reduce((latest, item) => {
@@ -268,8 +483,8 @@ export async function postWeeklySummaryWithFileToSlack(
   
   if (missedItems.length > 0) {
     // Generate CSV for missed items only
-    const csvContent = generateCSV(missedItems);
-    const weekLabel = formatDate(lastWeekStart);
+    const csvContent = generateCSV(missedItems, report.timezone);
+    const weekLabel = formatDate(lastWeekStart, report.timezone);
     
     // Upload the CSV file as a thread reply
     await uploadFileToSlack(
@@ -283,3 +498,148 @@ export async function postWeeklySummaryWithFileToSlack(
   }
 }
 
+/**
+ * Format the open backlog for Slack: age buckets, per-repo counts and links to the oldest items
+ */
+export function formatBacklogForSlack(report: BacklogReport, maxItems: number = 20): string {
+  let text = `*📥 Open Backlog - ${report.items.length} items without an org response*\n\n`;
+
+  if (report.items.length === 0) {
+    return text + 'Nothing waiting for a response 🎉';
+  }
+
+  text += '```\n';
+  text += 'Age (business days) | Count\n';
+  text += '-'.repeat(28) + '\n';
+  for (const bucket of report.ageBuckets) {
+    text += `${bucket.label.padEnd(19)} | ${bucket.items.length.toString().padStart(5)}\n`;
+  }
+  text += '\nRepository           | Count\n';
+  text += '-'.repeat(28) + '\n';
+  for (const repo of report.repositories) {
+    text += `${repo.repository.padEnd(20)} | ${repo.count.toString().padStart(5)}\n`;
+  }
+  text += '```\n\n';
+
+  text += '*Oldest items:*\n';
+  for (const { item, ageBusinessDays } of report.items.slice(0, maxItems)) {
+    text += `• <${item.url}|${item.repository}#${item.number}> ${escapeSlackText(item.title)} _(${ageBusinessDays.toFixed(1)} days)_\n`;
+  }
+  if (report.items.length > maxItems) {
+    text += `_...and ${report.items.length - maxItems} more_\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Post the open backlog to Slack as its own message (webhook version)
+ */
+export async function postBacklogToSlack(webhookUrl: string, report: BacklogReport): Promise<void> {
+  await postToSlack(webhookUrl, formatBacklogForSlack(report));
+}
+
+/**
+ * Post the open backlog to Slack as its own message with a CSV of all items attached in a thread
+ * (Web API version)
+ */
+export async function postBacklogWithFileToSlack(
+  botToken: string,
+  channel: string,
+  report: BacklogReport
+): Promise<void> {
+  const threadTs = await postMessageToSlack(botToken, channel, formatBacklogForSlack(report));
+
+  if (report.items.length > 0) {
+    await uploadFileToSlack(
+      botToken,
+      channel,
+      generateBacklogCSV(report),
+      'backlog.csv',
+      threadTs,
+      `📎 All ${report.items.length} open items without an org response`
+    );
+  }
+}
+
+/**
+ * Format a short alert listing items that are about to breach the response SLA (at most maxItems)
+ */
+export function formatSlaAlertForSlack(items: BacklogItem[], slaHours: number, maxItems: number = 20): string {
+  let text = `*⏰ ${items.length} ${items.length === 1 ? 'item is' : 'items are'} about to miss the ${slaHours}h response target*\n`;
+
+  for (const { item, ageHours } of items.slice(0, maxItems)) {
+    const remaining = Math.max(0, slaHours - ageHours);
+    text += `• <${item.url}|${item.repository}#${item.number}> ${escapeSlackText(item.title)} ` +
+      `_(${item.type.toUpperCase()}, ${ageHours.toFixed(1)}h old, ${remaining.toFixed(1)}h left)_\n`;
+  }
+  if (items.length > maxItems) {
+    text += `_...and ${items.length - maxItems} more_\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Post an SLA alert to Slack (webhook version)
+ */
+export async function postSlaAlertToSlack(
+  webhookUrl: string,
+  items: BacklogItem[],
+  slaHours: number
+): Promise<void> {
+  await postToSlack(webhookUrl, formatSlaAlertForSlack(items, slaHours));
+}
+
+/**
+ * Sends reports and alerts to Slack, preferring the Web API (bot token + channel) over a webhook
+ */
+export class SlackNotifier implements Notifier {
+  readonly name = 'Slack';
+  private botToken?: string;
+  private channelId?: string;
+  private webhookUrl?: string;
+  private template: NotifierTemplate;
+  private targetPercentage: number;
+
+  constructor(
+    credentials: { botToken?: string; channelId?: string; webhookUrl?: string },
+    template: NotifierTemplate = 'summary',
+    targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
+  ) {
+    if (!(credentials.botToken && credentials.channelId) && !credentials.webhookUrl) {
+      throw new Error('Slack notifier needs a bot token and channel ID, or a webhook URL');
+    }
+    this.botToken = credentials.botToken;
+    this.channelId = credentials.channelId;
+    this.webhookUrl = credentials.webhookUrl;
+    this.template = template;
+    this.targetPercentage = targetPercentage;
+  }
+
+  async sendReport(report: ReportData): Promise<void> {
+    if (this.botToken && this.channelId) {
+      await postWeeklySummaryWithFileToSlack(this.botToken, this.channelId, report, this.targetPercentage, this.template);
+    } else if (this.template === 'full') {
+      await postFullReportToSlack(this.webhookUrl!, report, this.targetPercentage);
+    } else {
+      await postWeeklySummaryToSlack(this.webhookUrl!, report, this.targetPercentage);
+    }
+  }
+
+  async sendBacklog(report: BacklogReport): Promise<void> {
+    if (this.botToken && this.channelId) {
+      await postBacklogWithFileToSlack(this.botToken, this.channelId, report);
+    } else {
+      await postBacklogToSlack(this.webhookUrl!, report);
+    }
+  }
+
+  async sendSlaAlert(items: BacklogItem[], slaHours: number): Promise<void> {
+    if (this.botToken && this.channelId) {
+      await postMessageToSlack(this.botToken, this.channelId, formatSlaAlertForSlack(items, slaHours));
+    } else {
+      await postSlaAlertToSlack(this.webhookUrl!, items, slaHours);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { createServer, type Server } from 'node:net';
+
+/**
+ * A local SMTP server for tests that answers each command from a script
+ */
+export interface ScriptedSmtpServer {
+  host: string;
+  port: number;
+  commands: string[];  // Command lines received, without the message data
+  messages: string[];  // Message data received after DATA, with CRLF line endings
+  close(): Promise<void>;
+}
+
+/**
+ * Replies of a server that offers AUTH PLAIN and LOGIN and accepts every message
+ */
+export function defaultSmtpReply(line: string): string {
+  switch (line.split(' ')[0].toUpperCase()) {
+    case 'EHLO': return '250-test.local\r\n250-8BITMIME\r\n250 AUTH PLAIN LOGIN';
+    case 'AUTH': return '235 Authenticated';
+    case 'MAIL':
+    case 'RCPT': return '250 OK';
+    case 'DATA': return '354 End data with <CR><LF>.<CR><LF>';
+    case 'QUIT': return '221 Bye';
+    default: return '500 Unknown command';
+  }
+}
+
+/**
+ * Start a server on 127.0.0.1 that greets with 220 and answers each command line with
+ * reply(line). After a 354 reply the lines up to the terminating dot are collected as a message.
+ */
+export async function startSmtpServer(reply: (line: string) => string = defaultSmtpReply): Promise<ScriptedSmtpServer> {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server: Server = createServer(socket => {
+    let buffer = '';
+    let data: string[] | null = null;
+
+    socket.write('220 test.local ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = null;
+            socket.write('250 Queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const response = reply(line);
+        socket.write(response + '\r\n');
+        if (response.startsWith('354')) data = [];
+        if (response.startsWith('221')) socket.end();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  if (!address || typeof address === 'string') throw new Error('SMTP test server has no port');
+
+  return {
+    host: '127.0.0.1',
+    port: address.port,
+    commands,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
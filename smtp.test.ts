@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { sendMail } from './smtp.ts';
+import { defaultSmtpReply, startSmtpServer, type ScriptedSmtpServer } from './smtp-test-server.ts';
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+let server: ScriptedSmtpServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+describe('sendMail', () => {
+  test('sends to a local server without TLS by default', async () => {
+    server = await startSmtpServer();
+
+    await sendMail({ host: server.host, port: server.port }, 'reports@example.com', ['a@example.com', 'b@example.com'], 'Subject: Hi\r\n\r\nHello');
+
+    expect(server.commands.map(line => line.split(' ')[0])).toEqual(['EHLO', 'MAIL', 'RCPT', 'RCPT', 'DATA', 'QUIT']);
+    expect(server.commands).toContain('MAIL FROM:<reports@example.com>');
+    expect(server.commands).toContain('RCPT TO:<b@example.com>');
+    expect(server.messages).toEqual(['Subject: Hi\r\n\r\nHello']);
+  });
+
+  test('doubles leading dots and normalizes line endings in the message', async () => {
+    server = await startSmtpServer();
+
+    await sendMail({ host: server.host, port: server.port }, 'reports@example.com', ['a@example.com'], 'first\n.second\n..third');
+
+    expect(server.messages).toEqual(['first\r\n..second\r\n...third']);
+  });
+
+  test('authenticates with AUTH PLAIN when offered', async () => {
+    server = await startSmtpServer();
+
+    await sendMail(
+      { host: server.host, port: server.port, username: 'user', password: 'secret' },
+      'reports@example.com', ['a@example.com'], 'Hello'
+    );
+
+    expect(server.commands[1]).toBe(`AUTH PLAIN ${base64('\0user\0secret')}`);
+  });
+
+  test('falls back to AUTH LOGIN', async () => {
+    server = await startSmtpServer(line => {
+      if (line.startsWith('EHLO')) return '250-test.local\r\n250 AUTH LOGIN';
+      if (line === 'AUTH LOGIN' || line === base64('user')) return '334 ok';
+      if (line === base64('secret')) return '235 Authenticated';
+      return defaultSmtpReply(line);
+    });
+
+    await sendMail(
+      { host: server.host, port: server.port, username: 'user', password: 'secret' },
+      'reports@example.com', ['a@example.com'], 'Hello'
+    );
+
+    expect(server.commands.slice(1, 4)).toEqual(['AUTH LOGIN', base64('user'), base64('secret')]);
+    expect(server.messages).toHaveLength(1);
+  });
+
+  test('fails without AUTH PLAIN or LOGIN', async () => {
+    server = await startSmtpServer(line => line.startsWith('EHLO') ? '250-test.local\r\n250 AUTH CRAM-MD5' : defaultSmtpReply(line));
+
+    await expect(sendMail(
+      { host: server.host, port: server.port, username: 'user', password: 'secret' },
+      'reports@example.com', ['a@example.com'], 'Hello'
+    )).rejects.toThrow("doesn't support AUTH PLAIN or LOGIN (offers: CRAM-MD5)");
+  });
+
+  test('fails when STARTTLS is required but not offered', async () => {
+    server = await startSmtpServer();
+
+    await expect(sendMail(
+      { host: server.host, port: server.port, tls: 'starttls' },
+      'reports@example.com', ['a@example.com'], 'Hello'
+    )).rejects.toThrow("doesn't offer STARTTLS");
+    expect(server.messages).toEqual([]);
+  });
+
+  test('reports a rejected recipient without sending the message', async () => {
+    server = await startSmtpServer(line => line.startsWith('RCPT') ? '550 No such user' : defaultSmtpReply(line));
+
+    await expect(sendMail({ host: server.host, port: server.port }, 'reports@example.com', ['nobody@example.com'], 'Hello'))
+      .rejects.toThrow('SMTP RCPT TO <nobody@example.com> failed: 550 No such user');
+    expect(server.messages).toEqual([]);
+  });
+
+  test('keeps credentials out of AUTH errors', async () => {
+    server = await startSmtpServer(line => line.startsWith('AUTH') ? '535 Authentication failed' : defaultSmtpReply(line));
+
+    const error = await sendMail(
+      { host: server.host, port: server.port, username: 'user', password: 'secret' },
+      'reports@example.com', ['a@example.com'], 'Hello'
+    ).catch(error => error);
+
+    expect(error.message).toBe('SMTP AUTH failed: 535 Authentication failed');
+  });
+
+  test('fails when the server cannot be reached', async () => {
+    server = await startSmtpServer();
+    const { host, port } = server;
+    await server.close();
+    server = null;
+
+    await expect(sendMail({ host, port }, 'reports@example.com', ['a@example.com'], 'Hello'))
+      .rejects.toThrow(`Failed to connect to SMTP server ${host}:${port}`);
+  });
+});
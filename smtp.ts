@@ -0,0 +1,226 @@
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { hostname } from 'node:os';
+import type { SmtpConfig } from './types.ts';
+
+// Give up on a server that stops answering
+const SMTP_TIMEOUT_MS = 30_000;
+
+// Local SMTP catchers (Mailpit, MailHog) don't offer TLS, so these hosts default to tls 'none'
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+interface SmtpReply {
+  code: number;
+  text: string;
+  lines: string[];
+}
+
+/**
+ * Wait until a socket is connected, or fail with its connection error
+ */
+function waitForConnection(socket: Socket, event: 'connect' | 'secureConnect'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.once(event, () => {
+      socket.off('error', reject);
+      resolve();
+    });
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * One SMTP session: sends commands and reads (possibly multi-line) replies
+ */
+class SmtpConnection {
+  private socket!: Socket;
+  private buffer: string;
+  private replyLines: string[];
+  private replies: SmtpReply[];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null;
+  private failure: Error | null;
+
+  constructor(socket: Socket) {
+    this.buffer = '';
+    this.replyLines = [];
+    this.replies = [];
+    this.waiting = null;
+    this.failure = null;
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    socket.setTimeout(SMTP_TIMEOUT_MS);
+    socket.on('data', chunk => this.receive(chunk.toString()));
+    socket.on('timeout', () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP server closed the connection')));
+  }
+
+  private detach(): void {
+    this.socket.setTimeout(0);
+    for (const event of ['data', 'timeout', 'error', 'close']) {
+      this.socket.removeAllListeners(event);
+    }
+  }
+
+  private receive(text: string): void {
+    this.buffer += text;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.replyLines.push(line);
+
+      // The last line of a reply has a space (or nothing) after the code, continuation lines a dash
+      if (/^\d{3}( |$)/.test(line)) {
+        const lines = this.replyLines;
+        this.replyLines = [];
+        this.deliver({
+          code: parseInt(line.slice(0, 3)),
+          text: lines.map(entry => entry.slice(4)).join(' '),
+          lines: lines.map(entry => entry.slice(4)),
+        });
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+    if (this.waiting) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Read the next reply and check its code
+   */
+  async expect(codes: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command and check the reply code. `step` names the command in errors
+   * so that credentials never end up in a message.
+   */
+  async command(line: string, codes: number[], step: string = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(line + '\r\n');
+    return this.expect(codes, step);
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS command
+   */
+  async startTls(host: string): Promise<void> {
+    this.detach();
+    const secureSocket = connectTls({ socket: this.socket, servername: host });
+    await waitForConnection(secureSocket, 'secureConnect');
+    this.attach(secureSocket);
+  }
+
+  close(): void {
+    this.detach();
+    this.socket.destroy();
+  }
+}
+
+/**
+ * Say EHLO and return the server's extensions (e.g. STARTTLS, AUTH PLAIN LOGIN) in upper case
+ */
+async function ehlo(connection: SmtpConnection): Promise<string[]> {
+  const reply = await connection.command(`EHLO ${hostname() || 'localhost'}`, [250]);
+  return reply.lines.slice(1).map(line => line.toUpperCase());
+}
+
+async function authenticate(connection: SmtpConnection, extensions: string[], username: string, password: string): Promise<void> {
+  const auth = extensions.find(line => line.startsWith('AUTH ') || line.startsWith('AUTH='));
+  const mechanisms = auth ? auth.slice(5).split(' ') : [];
+  const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+  if (mechanisms.includes('PLAIN')) {
+    await connection.command(`AUTH PLAIN ${base64(`\0${username}\0${password}`)}`, [235], 'AUTH');
+  } else if (mechanisms.includes('LOGIN')) {
+    await connection.command('AUTH LOGIN', [334], 'AUTH');
+    await connection.command(base64(username), [334], 'AUTH');
+    await connection.command(base64(password), [235], 'AUTH');
+  } else {
+    throw new Error(`SMTP server doesn't support AUTH PLAIN or LOGIN (offers: ${mechanisms.join(' ') || 'none'})`);
+  }
+}
+
+/**
+ * Send a complete RFC 5322 message (CRLF line endings) through an SMTP server.
+ * With tls 'starttls' (the default except on localhost) the connection is upgraded
+ * before authenticating and sending fails if the server doesn't offer it.
+ */
+export async function sendMail(smtp: SmtpConfig, from: string, recipients: string[], message: string): Promise<void> {
+  const tls = smtp.tls || (LOCAL_HOSTS.includes(smtp.host.toLowerCase()) ? 'none' : 'starttls');
+  const port = smtp.port || (tls === 'implicit' ? 465 : 587);
+
+  const socket = tls === 'implicit'
+    ? connectTls({ host: smtp.host, port, servername: smtp.host })
+    : connectTcp({ host: smtp.host, port });
+  try {
+    await waitForConnection(socket, tls === 'implicit' ? 'secureConnect' : 'connect');
+  } catch (error: any) {
+    socket.destroy();
+    throw new Error(`Failed to connect to SMTP server ${smtp.host}:${port}: ${error.message}`);
+  }
+
+  const connection = new SmtpConnection(socket);
+  try {
+    await connection.expect([220], 'greeting');
+    let extensions = await ehlo(connection);
+
+    if (tls === 'starttls') {
+      if (!extensions.includes('STARTTLS')) {
+        throw new Error(`SMTP server ${smtp.host} doesn't offer STARTTLS (set smtp.tls to "none" to send unencrypted)`);
+      }
+      await connection.command('STARTTLS', [220]);
+      await connection.startTls(smtp.host);
+      extensions = await ehlo(connection);
+    }
+
+    if (smtp.username) {
+      await authenticate(connection, extensions, smtp.username, smtp.password || '');
+    }
+
+    await connection.command(`MAIL FROM:<${from}>`, [250], 'MAIL FROM');
+    for (const recipient of recipients) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251], `RCPT TO <${recipient}>`);
+    }
+    await connection.command('DATA', [354]);
+
+    // Lines starting with a dot get an extra one so they aren't read as the end of the message
+    const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    await connection.command(`${body}\r\n.`, [250], 'message delivery');
+    await connection.command('QUIT', [221]);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, expect, test } from 'bun:test';
+import { buildTeamsSlaAlertCard } from './teams.ts';
+import { testBacklogItems } from './test-data.ts';
+
+describe('buildTeamsSlaAlertCard', () => {
+  test('lists every item up to the cap', () => {
+    const [, list, ...rest] = buildTeamsSlaAlertCard(testBacklogItems(20), 8);
+
+    expect(String(list.text).split('\n')).toHaveLength(20);
+    expect(rest).toEqual([]);
+  });
+
+  test('notes the items beyond the cap', () => {
+    const [title, list, more] = buildTeamsSlaAlertCard(testBacklogItems(25), 8);
+
+    expect(title.text).toBe('⏰ 25 items are about to miss the 8h response target');
+    expect(String(list.text).split('\n')).toHaveLength(20);
+    expect(more.text).toBe('…and 5 more');
+  });
+});
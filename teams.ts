@@ -0,0 +1,204 @@
+import type { BacklogItem, BacklogReport, IssueData, Notifier, NotifierTemplate, ReportData } from './types.ts';
+import { formatDate } from './utils.ts';
+import { DEFAULT_TARGET_PERCENTAGE, findWorstItems, formatHours, formatWeekLine, getOneDayPercentage, getTargetStatus } from './output.ts';
+
+// Adaptive Card text colors for the target status
+const STATUS_COLORS = { good: 'Good', warning: 'Warning', bad: 'Attention' };
+
+type CardElement = Record<string, unknown>;
+
+/**
+ * Escape characters that Teams renders as Markdown in TextBlocks
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_[\]])/g, '\\$1');
+}
+
+function textBlock(text: string, options: Record<string, unknown> = {}): CardElement {
+  return { type: 'TextBlock', text, wrap: true, ...options };
+}
+
+function heading(text: string): CardElement {
+  return textBlock(text, { weight: 'Bolder', spacing: 'Medium' });
+}
+
+function factSet(facts: Array<[string, string]>): CardElement {
+  return { type: 'FactSet', facts: facts.map(([title, value]) => ({ title, value })) };
+}
+
+function itemLink(item: IssueData): string {
+  return `[${escapeMarkdown(`${item.repository}#${item.number}`)}](${item.url}) ${escapeMarkdown(item.title)}`;
+}
+
+/**
+ * Wrap card body elements in an incoming-webhook message with an Adaptive Card attachment
+ */
+function adaptiveCardMessage(body: CardElement[]): Record<string, unknown> {
+  return {
+    type: 'message',
+    attachments: [{
+      contentType: 'application/vnd.microsoft.card.adaptive',
+      content: {
+        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+        type: 'AdaptiveCard',
+        version: '1.4',
+        msteams: { width: 'Full' },
+        body,
+      },
+    }],
+  };
+}
+
+/**
+ * Build the report as Adaptive Card body elements. The summary template has the headline,
+ * weekly summary and worst-offending items; the full template adds issue/PR stats,
+ * response times, lifecycle, the per-repository breakdown and top responders.
+ */
+export function buildTeamsReportCard(
+  report: ReportData,
+  template: NotifierTemplate = 'summary',
+  targetPercentage: number = DEFAULT_TARGET_PERCENTAGE
+): CardElement[] {
+  const { metrics } = report;
+  const percentage = getOneDayPercentage(metrics);
+
+  const body: CardElement[] = [
+    textBlock('GitHub Response Time Analysis', { size: 'Large', weight: 'Bolder' }),
+    textBlock(`${formatDate(report.startDate, report.timezone)} to ${formatDate(report.endDate, report.timezone)} · times in working hours`, { isSubtle: true, spacing: 'None' }),
+    textBlock(
+      `**${percentage.toFixed(1)}%** of ${metrics.totalIssues + metrics.totalPRs} issues/PRs responded within 1 business day (target ${targetPercentage}%)`,
+      { color: STATUS_COLORS[getTargetStatus(percentage, targetPercentage)] }
+    ),
+  ];
+
+  if (template === 'full') {
+    const lifecycle = metrics.lifecycle;
+    body.push(factSet([
+      ['Issues', `${metrics.totalIssues} total · ${metrics.issuesResponded} responded (${metrics.issueResponseRate.toFixed(1)}%) · ${metrics.issuesWithinOneDay} within 1 day (${metrics.issueOneDayPercentage.toFixed(1)}%)`],
+      ['Pull Requests', `${metrics.totalPRs} total · ${metrics.prsResponded} responded (${metrics.prResponseRate.toFixed(1)}%) · ${metrics.prsWithinOneDay} within 1 day (${metrics.prOneDayPercentage.toFixed(1)}%)`],
+      ['Response time', `median ${formatHours(metrics.medianResponseTimeHours)} h · p90 ${formatHours(metrics.p90ResponseTimeHours)} h · p95 ${formatHours(metrics.p95ResponseTimeHours)} h`],
+      ['Lifecycle', `${lifecycle.open} open · ${lifecycle.closed} closed · ${lifecycle.merged} merged · PR merge rate ${lifecycle.prMergeRate.toFixed(1)}%`],
+    ]));
+  }
+
+  body.push(heading('📅 Weekly - responded within 1 business day'));
+  body.push(factSet(report.weeklySummary.map(week => [
+    formatDate(week.weekStarting, report.timezone),
+    formatWeekLine(week, report.trends),
+  ])));
+
+  if (template === 'full' && report.repositoryMetrics.length > 0) {
+    body.push(heading('📦 By repository'));
+    body.push(factSet(report.repositoryMetrics.map(({ repository, metrics: repoMetrics }) => [
+      repository,
+      `${getOneDayPercentage(repoMetrics).toFixed(1)}% of ${repoMetrics.totalIssues + repoMetrics.totalPRs} · median ${formatHours(repoMetrics.medianResponseTimeHours)} h`,
+    ])));
+  }
+
+  if (template === 'full' && report.responderReport.responders.length > 0) {
+    body.push(heading('👥 Top responders'));
+    body.push(factSet(report.responderReport.responders.slice(0, 5).map(responder => [
+      responder.login,
+      `${responder.firstResponses} first responses (${responder.sharePercentage.toFixed(1)}%)`,
+    ])));
+  }
+
+  const missedCount = report.items.filter(item => !item.respondedWithinOneDay).length;
+  if (missedCount > 0) {
+    body.push(heading(`⚠️ Slowest of ${missedCount} missed items`));
+    body.push(textBlock(findWorstItems(report.items).map(item => {
+      const response = item.responseTimeHours !== null ? `${item.responseTimeHours.toFixed(1)}h` : 'no response';
+      return `- ${itemLink(item)} (${item.type.toUpperCase()}, ${response})`;
+    }).join('\n')));
+  }
+
+  return body;
+}
+
+/**
+ * Build the open backlog as Adaptive Card body elements
+ */
+export function buildTeamsBacklogCard(report: BacklogReport, maxItems: number = 10): CardElement[] {
+  const body: CardElement[] = [
+    textBlock(`📥 Open Backlog - ${report.items.length} items without an org response`, { size: 'Large', weight: 'Bolder' }),
+  ];
+
+  if (report.items.length === 0) {
+    body.push(textBlock('Nothing waiting for a response 🎉'));
+    return body;
+  }
+
+  body.push(heading('Age (business days)'));
+  body.push(factSet(report.ageBuckets.map(bucket => [bucket.label, bucket.items.length.toString()])));
+  body.push(heading('By repository'));
+  body.push(factSet(report.repositories.map(repo => [repo.repository, repo.count.toString()])));
+  body.push(heading('Oldest items'));
+  body.push(textBlock(report.items.slice(0, maxItems)
+    .map(({ item, ageBusinessDays }) => `- ${itemLink(item)} (${ageBusinessDays.toFixed(1)} days)`)
+    .join('\n')));
+
+  return body;
+}
+
+/**
+ * Build an SLA alert as Adaptive Card body elements, listing at most maxItems items
+ */
+export function buildTeamsSlaAlertCard(items: BacklogItem[], slaHours: number, maxItems: number = 20): CardElement[] {
+  const body = [
+    textBlock(`⏰ ${items.length} ${items.length === 1 ? 'item is' : 'items are'} about to miss the ${slaHours}h response target`, { weight: 'Bolder', color: 'Warning' }),
+    textBlock(items.slice(0, maxItems).map(({ item, ageHours }) =>
+      `- ${itemLink(item)} (${item.type.toUpperCase()}, ${ageHours.toFixed(1)}h old, ${Math.max(0, slaHours - ageHours).toFixed(1)}h left)`
+    ).join('\n')),
+  ];
+
+  if (items.length > maxItems) {
+    body.push(textBlock(`…and ${items.length - maxItems} more`, { isSubtle: true, spacing: 'None' }));
+  }
+
+  return body;
+}
+
+/**
+ * Post an Adaptive Card to a Teams incoming webhook
+ */
+export async function postToTeams(webhookUrl: string, body: CardElement[]): Promise<void> {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(adaptiveCardMessage(body)),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to post to Teams: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Sends reports and alerts to a Microsoft Teams channel as Adaptive Cards via an incoming webhook
+ */
+export class TeamsNotifier implements Notifier {
+  readonly name = 'Microsoft Teams';
+  private webhookUrl: string;
+  private template: NotifierTemplate;
+  private targetPercentage: number;
+
+  constructor(webhookUrl: string, template: NotifierTemplate = 'summary', targetPercentage: number = DEFAULT_TARGET_PERCENTAGE) {
+    this.webhookUrl = webhookUrl;
+    this.template = template;
+    this.targetPercentage = targetPercentage;
+  }
+
+  async sendReport(report: ReportData): Promise<void> {
+    await postToTeams(this.webhookUrl, buildTeamsReportCard(report, this.template, this.targetPercentage));
+  }
+
+  async sendBacklog(report: BacklogReport): Promise<void> {
+    await postToTeams(this.webhookUrl, buildTeamsBacklogCard(report));
+  }
+
+  async sendSlaAlert(items: BacklogItem[], slaHours: number): Promise<void> {
+    await postToTeams(this.webhookUrl, buildTeamsSlaAlertCard(items, slaHours));
+  }
+}
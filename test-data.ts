@@ -0,0 +1,68 @@
+import type { BacklogItem, IssueData, ReportData } from './types.ts';
+import { calculateOverallMetrics, calculateRepositoryMetrics, calculateWeeklySummary } from './metrics.ts';
+import { calculateResponderReport } from './responders.ts';
+import { calculateContributorReport } from './contributors.ts';
+import { calculateWeeklyTrends } from './history.ts';
+
+/**
+ * An issue answered within the hour, with any fields overridden
+ */
+export function testItem(overrides: Partial<IssueData>): IssueData {
+  return {
+    repository: 'api',
+    number: 1,
+    title: 'Crash on start',
+    labels: [],
+    createdAt: new Date('2024-01-01T09:00:00Z'),
+    measuredFrom: null,
+    firstResponseAt: new Date('2024-01-01T10:00:00Z'),
+    responseTimeHours: 1,
+    respondedBy: 'maintainer',
+    responseEvent: 'commented',
+    reportedBy: 'user',
+    respondedWithinOneDay: true,
+    weekStarting: new Date('2024-01-01T00:00:00Z'),
+    url: 'https://github.com/acme/api/issues/1',
+    type: 'issue',
+    state: 'open',
+    closedAt: null,
+    closedBy: null,
+    mergedAt: null,
+    timeToCloseHours: null,
+    timeToMergeHours: null,
+    ...overrides,
+  };
+}
+
+/**
+ * A two-week report over the given items, with every section calculated from them
+ */
+export function testReport(items: IssueData[]): ReportData {
+  const weeklySummary = calculateWeeklySummary(items);
+  return {
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2024-01-14T23:59:59Z'),
+    timezone: 'UTC',
+    trackedRepositories: [...new Set(items.map(item => item.repository))],
+    items,
+    metrics: calculateOverallMetrics(items),
+    weeklySummary,
+    repositoryMetrics: calculateRepositoryMetrics(items),
+    labelGroupMetrics: [],
+    exclusions: [],
+    responderReport: calculateResponderReport(items),
+    contributorReport: calculateContributorReport(items, []),
+    trends: calculateWeeklyTrends(weeklySummary, weeklySummary),
+  };
+}
+
+/**
+ * Open items six working hours old, numbered from 0
+ */
+export function testBacklogItems(count: number): BacklogItem[] {
+  return Array.from({ length: count }, (_, index) => ({
+    item: testItem({ number: index, url: `https://github.com/acme/api/issues/${index}` }),
+    ageHours: 6,
+    ageBusinessDays: 0.75,
+  }));
+}
@@ -1,24 +1,272 @@
 export interface Config {
   githubToken?: string;  // Optional - can be provided via GH_TOKEN env var
-  organization: string;
-  repositories: string[];
+  organization?: string;  // Single organization to track (or list several in organizations)
+  repositories: string[];  // Explicit repository names (may be empty when repositoryDiscovery is set)
+  repositoryDiscovery?: RepositoryDiscoveryConfig;
+  excludeRepositories?: string[];  // Names or glob patterns left out of the tracked repositories
   excludeTeams: string[];
+  organizations?: OrganizationConfig[];  // Several organizations, each with its own repositories and teams
   excludeBots?: string[];
+  cacheDir?: string;  // Directory for the on-disk response cache (default: .cache)
+  businessCalendar?: BusinessCalendarConfig;
+  fetcher?: FetcherType;  // API used to fetch issues and PRs (default: rest)
+  rateLimits?: RateLimitConfig;
+  responseRules?: ResponseRules;
+  watch?: WatchConfig;
+  historyFile?: string;  // Append-only JSONL store of past report snapshots (default: .history.jsonl)
+  targetPercentage?: number;  // Target % responded within one business day, for status indicators (default: 80)
+  notifiers?: NotifierConfig[];  // Where reports and alerts are sent (default: Slack from environment variables)
+  labelGroups?: Record<string, string[]>;  // Segments for the metrics by label, e.g. { "bug": ["bug", "type: bug"] }
+  filters?: ItemFilters;
+  exclusionRules?: ExclusionRules;
 }
 
-export interface IssueData {
+/**
+ * Which issues and PRs are analyzed, by label and title. Items matching an exclude rule are dropped;
+ * when include rules are set, items must also match them.
+ */
+export interface ItemFilters {
+  includeLabels?: string[];  // Keep only items with at least one of these labels
+  excludeLabels?: string[];  // Drop items with any of these labels, e.g. "invalid" or "spam"
+  includeTitle?: string;     // Keep only items whose title matches this regular expression
+  excludeTitle?: string;     // Drop items whose title matches this regular expression
+}
+
+/**
+ * How API requests are scheduled around GitHub's rate limits
+ */
+export interface RateLimitConfig {
+  maxConcurrentRequests?: number;  // Requests in flight at once (default: 4)
+  maxRetries?: number;             // Retries of server errors and secondary rate limits per request (default: 5)
+  maxWaitMinutes?: number;         // Longest wait for a rate limit reset before failing instead (default: 60)
+}
+
+/**
+ * Supported notification channels
+ */
+export type NotifierType = 'slack' | 'teams' | 'discord' | 'webhook' | 'email';
+
+/**
+ * How much of the report a notifier sends: the weekly summary only, or the full report
+ */
+export type NotifierTemplate = 'summary' | 'full';
+
+/**
+ * SMTP server used by the email notifier
+ */
+export interface SmtpConfig {
+  host: string;
+  port?: number;        // Default: 465 for implicit TLS, 587 otherwise
+  tls?: 'starttls' | 'implicit' | 'none';  // Default: none on localhost, otherwise starttls (the connection fails if the server doesn't offer it)
+  username?: string;    // Authenticate with AUTH PLAIN or LOGIN when set
+  password?: string;
+}
+
+/**
+ * A configured notification channel. Credentials that are left out are read from
+ * environment variables (SLACK_BOT_TOKEN, SLACK_CHANNEL_ID, SLACK_WEBHOOK_URL,
+ * TEAMS_WEBHOOK_URL, DISCORD_WEBHOOK_URL, SMTP_USERNAME, SMTP_PASSWORD).
+ */
+export interface NotifierConfig {
+  type: NotifierType;
+  template?: NotifierTemplate;  // Default: summary
+  webhookUrl?: string;          // Slack incoming webhook, Teams or Discord webhook, or generic webhook URL
+  botToken?: string;            // Slack only: bot token (preferred over the webhook, supports threads and files)
+  channelId?: string;           // Slack only: channel for the bot token
+  headers?: Record<string, string>;  // Generic webhook only: extra request headers
+  smtp?: SmtpConfig;            // Email only: SMTP server
+  from?: string;                // Email only: sender address
+  to?: string[];                // Email only: recipient addresses
+}
+
+/**
+ * How draft pull requests are measured: like any other PR, skipped, or from when they were marked ready for review
+ */
+export type DraftPullRequestRule = 'count' | 'skip' | 'ready-for-review';
+
+/**
+ * Which items are left out of the analysis and when the response clock starts.
+ * The defaults keep every item except issues closed by their author without a response.
+ */
+export interface ExclusionRules {
+  authorClosed?: boolean;       // Drop issues closed by their author without an org response (default: true)
+  draftPullRequests?: DraftPullRequestRule;  // Default: count
+  locked?: boolean;             // Drop locked items (default: false)
+  transferredIssues?: boolean;  // Measure transferred issues from the transfer instead of creation (default: false)
+  spam?: boolean;               // Drop items closed with a spam label and items by deleted users (default: false)
+  spamLabels?: string[];        // Labels that mark an item as spam (default: ["spam"])
+}
+
+/**
+ * Why an item was left out of the analysis
+ */
+export type ExclusionReason = 'author-closed' | 'draft' | 'locked' | 'spam' | 'deleted-user' | 'filtered';
+
+/**
+ * An item left out of the analysis, with the reason
+ */
+export interface ExcludedItem {
   repository: string;
   number: number;
+  url: string;
+  reason: ExclusionReason;
+}
+
+/**
+ * Number of items left out for one reason
+ */
+export interface ExclusionCount {
+  reason: ExclusionReason;
+  count: number;
+}
+
+/**
+ * One tracked organization with its own repositories and excluded teams.
+ * Members of any tracked organization count as responders.
+ */
+export interface OrganizationConfig {
+  organization: string;
+  repositories?: string[];
+  repositoryDiscovery?: RepositoryDiscoveryConfig;
+  excludeRepositories?: string[];
+  excludeTeams?: string[];
+}
+
+export type RepositoryVisibility = 'public' | 'private' | 'all';
+
+/**
+ * Rules for finding repositories in the organization, in addition to the explicit list
+ */
+export interface RepositoryDiscoveryConfig {
+  visibility?: RepositoryVisibility;  // Default: public
+  includeArchived?: boolean;  // Default: false
+  includeForks?: boolean;     // Default: false
+  topics?: string[];          // Only repositories with at least one of these topics
+  include?: string[];         // Only repositories whose name matches one of these glob patterns, e.g. "flow-*"
+}
+
+/**
+ * An organization repository with the fields used by discovery rules
+ */
+export interface OrgRepository {
+  name: string;
+  visibility: string;
+  archived: boolean;
+  fork: boolean;
+  topics: string[];
+}
+
+export interface WatchConfig {
+  warnAfterHours?: number;  // Alert once an item's working-hour age reaches this (default: 75% of the SLA)
+  stateFile?: string;       // Where already-alerted items are remembered (default: .watch-state.json)
+}
+
+/**
+ * Timeline activity that can count as a maintainer response
+ * (review_commented = PR review comment, reacted = reaction on the issue/PR description)
+ */
+export type ResponseEventType =
+  | 'commented'
+  | 'reviewed'
+  | 'review_commented'
+  | 'merged'
+  | 'labeled'
+  | 'assigned'
+  | 'closed'
+  | 'cross-referenced'
+  | 'review_requested'
+  | 'reacted';
+
+export interface ResponseRules {
+  events: ResponseEventType[];  // Event types by org members that count as a response
+}
+
+export type FetcherType = 'rest' | 'graphql';
+
+/**
+ * CLI command: the weekly response time report (default), the open backlog, the SLA watch,
+ * the stored history, or a check of the config file
+ */
+export type Command = 'report' | 'backlog' | 'watch' | 'history' | 'validate-config';
+
+/**
+ * Report file format written by the report command
+ */
+export type ReportFormat = 'csv' | 'json' | 'html' | 'markdown';
+
+export interface BusinessCalendarConfig {
+  timezone?: string;        // IANA timezone, e.g. "Europe/Helsinki" (default: process timezone)
+  workingHours?: {
+    start: string;          // HH:MM, e.g. "09:00"
+    end: string;            // HH:MM, e.g. "17:00"
+  };
+  holidays?: string[];      // YYYY-MM-DD dates that are not working days
+  holidaysIcsFile?: string; // Path to an .ics file with all-day holiday events
+  slaHours?: number;        // Working hours allowed for a response (default: one working day)
+}
+
+/**
+ * Resolved business calendar used for all working-time calculations
+ */
+export interface BusinessCalendar {
+  timezone: string;
+  workdayStartMinutes: number;
+  workdayEndMinutes: number;
+  holidays: Set<string>;
+  slaHours: number;
+}
+
+export interface IssueData {
+  repository: string;  // Repository name, qualified as org/repo when tracking several organizations
+  number: number;
   title: string;
+  labels: string[];
   createdAt: Date;
+  measuredFrom: Date | null;  // When the response clock started, if not at creation (ready for review or transfer)
   firstResponseAt: Date | null;
   responseTimeHours: number | null;
   respondedBy: string | null;
+  responseEvent: ResponseEventType | null;  // Event type that counted as the first response
   reportedBy: string | null;
   respondedWithinOneDay: boolean;
   weekStarting: Date;
   url: string;
   type: 'issue' | 'pr';
+  state: ItemState;
+  closedAt: Date | null;
+  closedBy: string | null;
+  mergedAt: Date | null;
+  timeToCloseHours: number | null;  // Working hours from creation to close (null if still open)
+  timeToMergeHours: number | null;  // Working hours from creation to merge (null if not merged)
+}
+
+/**
+ * Final state of an issue or PR: merged (PRs only), closed without merge, or still open
+ */
+export type ItemState = 'open' | 'closed' | 'merged';
+
+/**
+ * Source of issue and pull request data (live GitHub API or recorded fixtures)
+ */
+export interface DataSource {
+  checkRateLimit(): Promise<void>;
+  fetchOrgMembers(): Promise<void>;
+  buildExcludeList(excludeTeams: string[], excludeBots?: string[]): Promise<void>;
+  listOrgRepositories(visibility?: RepositoryVisibility, organization?: string): Promise<OrgRepository[]>;
+  fetchAllData(repositories: string[], startDate: Date, endDate: Date): Promise<IssueData[]>;
+  fetchBacklog(repositories: string[], include?: (measuredFrom: Date) => boolean): Promise<IssueData[]>;
+  getExcludedItems(): ExcludedItem[];
+  fetchContributorHistory(authors: string[]): Promise<ContributorHistory[]>;
+}
+
+/**
+ * A notification channel for reports, backlog summaries and SLA alerts
+ */
+export interface Notifier {
+  readonly name: string;
+  sendReport(report: ReportData): Promise<void>;
+  sendBacklog(report: BacklogReport): Promise<void>;
+  sendSlaAlert(items: BacklogItem[], slaHours: number): Promise<void>;
 }
 
 export interface WeeklySummary {
@@ -26,6 +274,46 @@ export interface WeeklySummary {
   totalIssues: number;
   respondedWithinOneDay: number;
   percentage: number;
+  responseTimes: ResponseTimeStats;
+  issueResponseTimes: ResponseTimeStats;
+  prResponseTimes: ResponseTimeStats;
+  lifecycle: LifecycleMetrics;
+}
+
+/**
+ * Close and merge metrics for a group of items (times in working hours)
+ */
+export interface LifecycleMetrics {
+  open: number;
+  closed: number;    // Closed without merge (issues and PRs)
+  merged: number;    // Merged PRs
+  prMergeRate: number;  // Percentage of external PRs merged
+  medianTimeToCloseHours: number | null;
+  p90TimeToCloseHours: number | null;
+  medianTimeToMergeHours: number | null;
+  p90TimeToMergeHours: number | null;
+}
+
+/**
+ * Number of items whose response time falls in a bucket ("never" = no response)
+ */
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+/**
+ * Response time statistics (in working hours) for a group of items
+ */
+export interface ResponseTimeStats {
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  median: number | null;
+  p75: number | null;
+  p90: number | null;
+  p95: number | null;
+  histogram: HistogramBucket[];
 }
 
 export interface OverallMetrics {
@@ -43,5 +331,205 @@ export interface OverallMetrics {
   maxResponseTimeHours: number | null;
   meanResponseTimeHours: number | null;
   medianResponseTimeHours: number | null;
+  p75ResponseTimeHours: number | null;
+  p90ResponseTimeHours: number | null;
+  p95ResponseTimeHours: number | null;
+  responseTimeHistogram: HistogramBucket[];
+  issueResponseTimes: ResponseTimeStats;
+  prResponseTimes: ResponseTimeStats;
+  lifecycle: LifecycleMetrics;
+}
+
+/**
+ * Metrics and weekly summary for a single repository
+ */
+export interface RepositoryMetrics {
+  repository: string;
+  metrics: OverallMetrics;
+  weeklySummary: WeeklySummary[];
+}
+
+/**
+ * Metrics and weekly summary for the items in one label group
+ */
+export interface LabelGroupMetrics {
+  group: string;
+  metrics: OverallMetrics;
+  weeklySummary: WeeklySummary[];
+}
+
+/**
+ * First-response workload of a single responder
+ */
+export interface ResponderStats {
+  login: string;
+  firstResponses: number;
+  sharePercentage: number;
+  medianResponseTimeHours: number | null;
+  repositories: string[];
+}
+
+/**
+ * Responder leaderboard and workload concentration
+ */
+export interface ResponderReport {
+  totalResponses: number;
+  responders: ResponderStats[];  // Sorted by number of first responses, descending
+  topResponderCount: number;     // Size of the "top N" group used for concentration
+  topResponderShare: number;     // Percentage of first responses handled by the top N
+  respondersForHalf: number;     // Fewest people who together handled at least 50% of first responses
+}
+
+/**
+ * An external author's earliest contributions (issues or PRs) to the tracked organizations
+ */
+export interface ContributorHistory {
+  login: string;
+  firstContributionAt: Date;
+  secondContributionAt: Date | null;
+}
+
+/**
+ * New and returning external authors of one week
+ */
+export interface WeeklyContributors {
+  weekStarting: Date;
+  authors: number;      // Distinct external authors with an item created this week
+  firstTimers: number;  // Authors whose first contribution to the organization was this week
+  returned: number;     // First-timers who contributed again within the return window
+}
+
+/**
+ * Response times for one group of contributions
+ */
+export interface ContributorGroupStats {
+  items: number;
+  respondedWithinOneDay: number;
+  percentage: number;
+  medianResponseTimeHours: number | null;
+  p90ResponseTimeHours: number | null;
+}
+
+/**
+ * First-time and returning contributors, and how fast their contributions got a response
+ */
+export interface ContributorReport {
+  returnWindowDays: number;
+  authors: number;      // Authors with a known history
+  firstTimers: number;
+  returned: number;
+  weekly: WeeklyContributors[];
+  firstContributions: ContributorGroupStats;  // Items that were their author's first contribution
+  repeatContributions: ContributorGroupStats; // Items by authors who had contributed before
+}
+
+/**
+ * An open item by an external author that has no org response yet
+ */
+export interface BacklogItem {
+  item: IssueData;
+  ageHours: number;         // Working hours since creation
+  ageBusinessDays: number;  // Working hours divided by the length of a working day
+}
+
+/**
+ * Open unanswered items grouped by age and repository
+ */
+export interface BacklogReport {
+  generatedAt: Date;
+  items: BacklogItem[];  // Oldest first
+  ageBuckets: Array<{ label: string; items: BacklogItem[] }>;
+  repositories: Array<{ repository: string; count: number }>;
+}
+
+/**
+ * Metrics of a single report run as stored in the history file
+ */
+export interface HistorySnapshot {
+  recordedAt: Date;
+  organization: string;  // Organization name, or the comma-separated names when tracking several
+  startDate: Date;
+  endDate: Date;
+  overall: OverallMetrics;
+  weeklySummary: WeeklySummary[];
+}
+
+/**
+ * A metric compared with the previous week and with the trailing average
+ */
+export interface TrendDelta {
+  current: number | null;
+  previous: number | null;
+  previousDelta: number | null;         // current - previous
+  trailingAverage: number | null;
+  trailingAverageDelta: number | null;  // current - trailingAverage
+}
+
+/**
+ * Week-over-week and trailing-average comparison for one week
+ */
+export interface WeeklyTrend {
+  weekStarting: Date;
+  trailingWeeks: number;  // Number of earlier weeks in the trailing average
+  withinOneDayPercentage: TrendDelta;
+  medianResponseTimeHours: TrendDelta;
+}
+
+/**
+ * Everything calculated for one report run
+ */
+export interface ReportData {
+  startDate: Date;
+  endDate: Date;
+  timezone: string;  // Business calendar timezone, in which dates are formatted
+  trackedRepositories: string[];  // Repositories analyzed, after discovery rules and excludes
+  items: IssueData[];
+  metrics: OverallMetrics;
+  weeklySummary: WeeklySummary[];
+  repositoryMetrics: RepositoryMetrics[];
+  labelGroupMetrics: LabelGroupMetrics[];  // Empty when no labelGroups are configured
+  exclusions: ExclusionCount[];  // Items left out by the exclusion rules and filters
+  responderReport: ResponderReport;
+  contributorReport: ContributorReport;
+  trends: WeeklyTrend[];
+}
+
+/**
+ * A type with every Date replaced by its ISO 8601 string, as written to JSON
+ */
+export type Serialized<T> =
+  T extends Date ? string :
+  T extends Array<infer U> ? Serialized<U>[] :
+  T extends object ? { [K in keyof T]: Serialized<T[K]> } :
+  T;
+
+/**
+ * The document written by `--format json`. Bump `version` on any breaking change
+ * to this shape so downstream tools can detect it.
+ */
+export interface JsonReport {
+  version: 1;
+  generatedAt: string;
+  config: Omit<Config, 'githubToken' | 'notifiers'>;  // Config used for the run, without credentials
+  dateRange: { start: string; end: string };
+  trackedRepositories: string[];  // Repositories analyzed, after discovery rules and excludes
+  overall: OverallMetrics;
+  weeklySummary: Serialized<WeeklySummary>[];
+  repositories: Serialized<RepositoryMetrics>[];
+  labelGroups: Serialized<LabelGroupMetrics>[];
+  exclusions: ExclusionCount[];
+  responders: ResponderReport;
+  contributors: Serialized<ContributorReport>;
+  trends: Serialized<WeeklyTrend>[];
+  items: Serialized<IssueData>[];
 }
 
+/**
+ * The JSON body posted by the generic webhook notifier. A summary report contains
+ * only the aggregate fields; a full report is the complete JsonReport.
+ */
+export type WebhookPayload =
+  | { event: 'report'; template: 'summary'; report: Pick<JsonReport, 'version' | 'generatedAt' | 'dateRange' | 'overall' | 'weeklySummary' | 'trends'> }
+  | { event: 'report'; template: 'full'; report: JsonReport }
+  | { event: 'backlog'; backlog: Serialized<BacklogReport> }
+  | { event: 'sla_alert'; slaHours: number; items: Serialized<BacklogItem>[] };
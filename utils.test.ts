@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import type { BusinessCalendar } from './types.ts';
+import { calculateHistogram, calculateStats, getResponseTimeBuckets, isWithinOneWorkingDay } from './utils.ts';
+
+const officeHours: BusinessCalendar = {
+  timezone: 'UTC',
+  workdayStartMinutes: 9 * 60,
+  workdayEndMinutes: 17 * 60,
+  holidays: new Set(),
+  slaHours: 8,
+};
+
+/**
+ * The bucket label each response time lands in
+ */
+const bucketOf = (hours: number | null, calendar?: BusinessCalendar) =>
+  calculateHistogram([hours], calendar).find(bucket => bucket.count === 1)?.label;
+
+describe('calculateStats', () => {
+  test('gives every percentile the single value of one item', () => {
+    expect(calculateStats([5])).toEqual({ min: 5, max: 5, mean: 5, median: 5, p75: 5, p90: 5, p95: 5 });
+  });
+
+  test('interpolates percentiles between two items', () => {
+    const stats = calculateStats([3, 1]);
+
+    expect(stats.median).toBe(2);
+    expect(stats.p75).toBeCloseTo(2.5);
+    expect(stats.p90).toBeCloseTo(2.8);
+    expect(stats.p95).toBeCloseTo(2.9);
+  });
+
+  test('interpolates percentiles between four items', () => {
+    const stats = calculateStats([4, 1, 3, 2]);
+
+    expect(stats.median).toBe(2.5);
+    expect(stats.p75).toBeCloseTo(3.25);
+    expect(stats.p90).toBeCloseTo(3.7);
+    expect(stats.p95).toBeCloseTo(3.85);
+  });
+
+  test('is empty without response times', () => {
+    expect(calculateStats([]).p95).toBeNull();
+  });
+});
+
+describe('calculateHistogram', () => {
+  test('includes the upper bound in each bucket', () => {
+    expect([0, 1, 1.01, 4, 8, 24, 24.5, 72, 72.5, null].map(hours => bucketOf(hours)))
+      .toEqual(['≤1h', '≤1h', '1-4h', '1-4h', '4-8h', '8-24h', '1-3 days', '1-3 days', '>3 days', 'never']);
+  });
+
+  test('ends the hour buckets at the working day, where the SLA ends', () => {
+    expect(getResponseTimeBuckets(officeHours).map(bucket => bucket.label)).toEqual(['≤1h', '1-4h', '4-8h', '1-3 days', '>3 days']);
+    expect(bucketOf(8, officeHours)).toBe('4-8h');
+    expect(bucketOf(8.5, officeHours)).toBe('1-3 days');
+
+    // 8 working hours from 09:00 to 17:00 are within the SLA too
+    expect(isWithinOneWorkingDay(new Date('2024-01-08T09:00:00Z'), new Date('2024-01-08T17:00:00Z'), officeHours)).toBe(true);
+  });
+});
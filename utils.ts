@@ -1,115 +1,214 @@
+import type { BusinessCalendar, Command, FetcherType, HistogramBucket, ReportFormat } from './types.ts';
+import { DEFAULT_CALENDAR, getTimezoneOffset, getZonedParts, toDateKey, workingIntervals, zonedTimeToDate } from './calendar.ts';
+
+/**
+ * Available commands (the first positional argument)
+ */
+export const COMMANDS: Command[] = ['report', 'backlog', 'watch', 'history', 'validate-config'];
+
+/**
+ * Available report formats
+ */
+export const REPORT_FORMATS: ReportFormat[] = ['csv', 'json', 'html', 'markdown'];
+
+/**
+ * Available fetchers for issues and PRs
+ */
+export const FETCHERS: FetcherType[] = ['rest', 'graphql'];
+
 /**
- * Calculate the number of working hours between two dates (excluding weekends)
+ * Calculate the number of working hours between two dates
+ * (excluding weekends, holidays and time outside the calendar's working hours)
  */
-export function calculateWorkingHours(start: Date, end: Date): number {
+export function calculateWorkingHours(
+  start: Date,
+  end: Date,
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): number {
   if (end < start) return 0;
   
-  let currentDate = new Date(start);
   let hours = 0;
   
-  while (currentDate < end) {
-    const dayOfWeek = currentDate.getDay();
-    
-    // Skip weekends (Saturday = 6, Sunday = 0)
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-      const nextDay = new Date(currentDate);
-      nextDay.setDate(nextDay.getDate() + 1);
-      nextDay.setHours(0, 0, 0, 0);
-      
-      const endOfPeriod = nextDay < end ? nextDay : end;
-      const periodHours = (endOfPeriod.getTime() - currentDate.getTime()) / (1000 * 60 * 60);
-      hours += periodHours;
-    }
-    
-    currentDate.setDate(currentDate.getDate() + 1);
-    currentDate.setHours(0, 0, 0, 0);
+  for (const interval of workingIntervals(start, end, calendar)) {
+    hours += (interval.end.getTime() - interval.start.getTime()) / (1000 * 60 * 60);
   }
   
   return hours;
 }
 
 /**
- * Check if response time is within one working day (24 hours excluding weekends)
+ * Check if response time is within the SLA (by default one working day)
+ */
+export function isWithinOneWorkingDay(
+  start: Date,
+  end: Date,
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): boolean {
+  const workingHours = calculateWorkingHours(start, end, calendar);
+  return workingHours <= calendar.slaHours;
+}
+
+/**
+ * Get the start of the week (Monday 00:00 in the calendar's timezone) for a given date
+ */
+export function getWeekStart(date: Date, calendar: BusinessCalendar = DEFAULT_CALENDAR): Date {
+  const { year, month, day } = getZonedParts(date, calendar.timezone);
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const diff = dayOfWeek === 0 ? -6 : 1 - dayOfWeek; // Adjust when day is Sunday
+  return zonedTimeToDate(year, month, day + diff, 0, calendar.timezone);
+}
+
+/**
+ * Format a date as YYYY-MM-DD in a timezone (week starts are midnight in the calendar's timezone,
+ * so they are labelled in the same timezone)
+ */
+export function formatDate(date: Date, timezone: string = DEFAULT_CALENDAR.timezone): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return toDateKey(year, month, day);
+}
+
+/**
+ * Format a date as an ISO 8601 string with the offset of a timezone, e.g. 2024-01-08T00:00:00.000+02:00
  */
-export function isWithinOneWorkingDay(start: Date, end: Date): boolean {
-  const workingHours = calculateWorkingHours(start, end);
-  return workingHours <= 24;
+export function toZonedISOString(date: Date, timezone: string): string {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timezone);
+  const offsetMinutes = Math.round(getTimezoneOffset(date.getTime(), timezone) / 60000);
+  const pad = (value: number, width: number = 2) => String(value).padStart(width, '0');
+
+  return `${toDateKey(year, month, day)}T${pad(hour)}:${pad(minute)}:${pad(second)}.${pad(date.getUTCMilliseconds(), 3)}` +
+    `${offsetMinutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`;
 }
 
 /**
- * Get the start of the week (Monday) for a given date
+ * Resolve the analysis window in the calendar's timezone. --start-date and --end-date are whole days;
+ * by default the window covers the 4 complete weeks ending last Sunday.
  */
-export function getWeekStart(date: Date): Date {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-  const weekStart = new Date(d.setDate(diff));
-  weekStart.setHours(0, 0, 0, 0);
-  return weekStart;
+export function resolveDateRange(
+  calendar: BusinessCalendar,
+  startArg?: string,
+  endArg?: string,
+  now: Date = new Date()
+): { startDate: Date; endDate: Date } {
+  const timezone = calendar.timezone;
+  const toDate = (value: string, dayOffset: number) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return zonedTimeToDate(year, month, day + dayOffset, 0, timezone);
+  };
+
+  // Default end date is the end of the previous Sunday (today when run on a Sunday)
+  // When running on Tuesday, this ensures we have complete data for the full previous week
+  // including issues filed on Sunday, and excludes the current partial week (Monday + today)
+  const today = getZonedParts(now, timezone);
+  const dayOfWeek = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay(); // 0 = Sunday
+  const defaultEnd = new Date(zonedTimeToDate(today.year, today.month, today.day - dayOfWeek + 1, 0, timezone).getTime() - 1);
+
+  // Start date is 4 complete weeks before (28 days), starting from Monday
+  const lastWeekStart = getZonedParts(getWeekStart(defaultEnd, calendar), timezone);
+  const defaultStart = zonedTimeToDate(lastWeekStart.year, lastWeekStart.month, lastWeekStart.day - 7 * 3, 0, timezone);
+
+  return {
+    startDate: startArg ? toDate(startArg, 0) : defaultStart,
+    endDate: endArg ? new Date(toDate(endArg, 1).getTime() - 1) : defaultEnd,
+  };
 }
 
 /**
- * Format a date as YYYY-MM-DD
+ * Check that a date option is a valid YYYY-MM-DD date
  */
-export function formatDate(date: Date): string {
-  return date.toISOString().split('T')[0];
+function validateDateArg(option: string, value: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+    throw new Error(`Invalid ${option} "${value}" (expected YYYY-MM-DD)`);
+  }
+  return value;
 }
 
 /**
- * Parse command line arguments
+ * Parse command line arguments (dates are resolved later, in the configured calendar's timezone)
  */
 export function parseArgs(): {
-  startDate: Date;
-  endDate: Date;
-  configPath: string;
+  command: Command;
+  startDate?: string;
+  endDate?: string;
+  configPath?: string;
+  useCache: boolean;
+  refreshCache: boolean;
+  fetcher?: FetcherType;
+  recordDir?: string;
+  replayDir?: string;
+  format: ReportFormat;
+  outputPath?: string;
 } {
   const args = process.argv.slice(2);
   
-  // Default end date is the end of the previous Sunday
-  // When running on Tuesday, this ensures we have complete data for the full previous week
-  // including issues filed on Sunday, and excludes the current partial week (Monday + today)
-  const today = new Date();
-  const dayOfWeek = today.getDay(); // 0 = Sunday, 1 = Monday, 2 = Tuesday, etc.
-  
-  // Calculate days to go back to reach the previous Sunday
-  // If today is Monday (1), go back 1 day; if Tuesday (2), go back 2 days, etc.
-  // If today is Sunday (0), go back 0 days (use today as the end)
-  const daysToLastSunday = dayOfWeek === 0 ? 0 : dayOfWeek;
-  
-  const endDate = new Date(today);
-  endDate.setDate(endDate.getDate() - daysToLastSunday);
-  endDate.setHours(23, 59, 59, 999); // End of Sunday
-  
-  // Start date is 4 complete weeks before (28 days), starting from Monday
-  const lastWeekStart = getWeekStart(endDate);
-  const startDate = new Date(lastWeekStart);
-  startDate.setDate(startDate.getDate() - (7 * 3)); // Go back 3 more weeks (4 weeks total)
-  startDate.setHours(0, 0, 0, 0);
+  let startDate: string | undefined;
+  let endDate: string | undefined;
+  let command: Command = 'report';
+  let configPath: string | undefined;
+  let useCache = true;
+  let refreshCache = false;
+  let fetcher: FetcherType | undefined;
+  let recordDir: string | undefined;
+  let replayDir: string | undefined;
+  let format: ReportFormat = 'csv';
+  let outputPath: string | undefined;
   
-  let configPath = './config.json';
+  // Optional command as the first argument
+  if (args.length > 0 && !args[0].startsWith('-')) {
+    if (!COMMANDS.includes(args[0] as Command)) {
+      throw new Error(`Unknown command "${args[0]}". Available commands: ${COMMANDS.join(', ')}`);
+    }
+    command = args.shift() as Command;
+  }
   
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--start-date' && args[i + 1]) {
-      const parsed = new Date(args[i + 1]);
-      if (!isNaN(parsed.getTime())) {
-        startDate.setTime(parsed.getTime());
-        startDate.setHours(0, 0, 0, 0);
-      }
+      startDate = validateDateArg(args[i], args[i + 1]);
       i++;
     } else if (args[i] === '--end-date' && args[i + 1]) {
-      const parsed = new Date(args[i + 1]);
-      if (!isNaN(parsed.getTime())) {
-        endDate.setTime(parsed.getTime());
-        endDate.setHours(23, 59, 59, 999);
-      }
+      endDate = validateDateArg(args[i], args[i + 1]);
       i++;
     } else if (args[i] === '--config' && args[i + 1]) {
       configPath = args[i + 1];
       i++;
+    } else if (args[i] === '--no-cache') {
+      useCache = false;
+    } else if (args[i] === '--refresh') {
+      refreshCache = true;
+    } else if (args[i] === '--fetcher' && args[i + 1]) {
+      if (!FETCHERS.includes(args[i + 1] as FetcherType)) {
+        throw new Error(`Unknown fetcher "${args[i + 1]}". Available fetchers: ${FETCHERS.join(', ')}`);
+      }
+      fetcher = args[i + 1] as FetcherType;
+      i++;
+    } else if (args[i] === '--record' && args[i + 1]) {
+      recordDir = args[i + 1];
+      i++;
+    } else if (args[i] === '--replay' && args[i + 1]) {
+      replayDir = args[i + 1];
+      i++;
+    } else if (args[i] === '--format' && args[i + 1]) {
+      if (!REPORT_FORMATS.includes(args[i + 1] as ReportFormat)) {
+        throw new Error(`Unknown format "${args[i + 1]}". Available formats: ${REPORT_FORMATS.join(', ')}`);
+      }
+      format = args[i + 1] as ReportFormat;
+      i++;
+    } else if (args[i] === '--output' && args[i + 1]) {
+      outputPath = args[i + 1];
+      i++;
     }
   }
   
-  return { startDate, endDate, configPath };
+  return { command, startDate, endDate, configPath, useCache, refreshCache, fetcher, recordDir, replayDir, format, outputPath };
+}
+
+/**
+ * Calculate a percentile (0-1) of sorted values using linear interpolation
+ */
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
 }
 
 /**
@@ -120,9 +219,12 @@ export function calculateStats(responseTimes: number[]): {
   max: number | null;
   mean: number | null;
   median: number | null;
+  p75: number | null;
+  p90: number | null;
+  p95: number | null;
 } {
   if (responseTimes.length === 0) {
-    return { min: null, max: null, mean: null, median: null };
+    return { min: null, max: null, mean: null, median: null, p75: null, p90: null, p95: null };
   }
   
   const sorted = [...responseTimes].sort((a, b) => a - b);
@@ -138,6 +240,58 @@ export function calculateStats(responseTimes: number[]): {
     median = sorted[Math.floor(sorted.length / 2)];
   }
   
-  return { min, max, mean, median };
+  return {
+    min,
+    max,
+    mean,
+    median,
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+    p95: percentile(sorted, 0.95),
+  };
 }
 
+/**
+ * Response time histogram buckets (upper bound inclusive, in working hours): hour buckets up to
+ * the length of the calendar's working day, then 1-3 working days and more. Like the SLA check,
+ * a response at exactly one working day lands in the bucket that ends there.
+ * With the default 24-hour day these are ≤1h, 1-4h, 4-8h, 8-24h, 1-3 days and >3 days.
+ */
+export function getResponseTimeBuckets(calendar: BusinessCalendar = DEFAULT_CALENDAR): Array<{ label: string; maxHours: number }> {
+  const workdayHours = (calendar.workdayEndMinutes - calendar.workdayStartMinutes) / 60;
+  const hourEdges = [1, 4, 8].filter(hours => hours < workdayHours);
+  const lastEdge = hourEdges[hourEdges.length - 1];
+
+  return [
+    ...hourEdges.map((maxHours, index) => ({
+      label: index === 0 ? `≤${maxHours}h` : `${hourEdges[index - 1]}-${maxHours}h`,
+      maxHours,
+    })),
+    { label: lastEdge ? `${lastEdge}-${+workdayHours.toFixed(2)}h` : `≤${+workdayHours.toFixed(2)}h`, maxHours: workdayHours },
+    { label: '1-3 days', maxHours: workdayHours * 3 },
+    { label: '>3 days', maxHours: Infinity },
+  ];
+}
+
+/**
+ * Count response times per histogram bucket (null = never responded)
+ */
+export function calculateHistogram(
+  responseTimes: Array<number | null>,
+  calendar: BusinessCalendar = DEFAULT_CALENDAR
+): HistogramBucket[] {
+  const responseTimeBuckets = getResponseTimeBuckets(calendar);
+  const buckets: HistogramBucket[] = [
+    ...responseTimeBuckets.map(bucket => ({ label: bucket.label, count: 0 })),
+    { label: 'never', count: 0 },
+  ];
+  
+  for (const hours of responseTimes) {
+    const index = hours === null
+      ? buckets.length - 1
+      : responseTimeBuckets.findIndex(bucket => hours <= bucket.maxHours);
+    buckets[index].count++;
+  }
+  
+  return buckets;
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { BusinessCalendar, Notifier } from './types.ts';
+import { AlertState, findItemsNearingBreach, sendSlaAlerts } from './watch.ts';
+import { testBacklogItems, testItem } from './test-data.ts';
+
+const calendar: BusinessCalendar = { timezone: 'UTC', workdayStartMinutes: 9 * 60, workdayEndMinutes: 17 * 60, holidays: new Set(), slaHours: 8 };
+const now = new Date('2024-01-08T17:00:00Z');  // End of a Monday
+
+const unanswered = (number: number, createdAt: string, measuredFrom: string | null = null) =>
+  testItem({ number, createdAt: new Date(createdAt), measuredFrom: measuredFrom ? new Date(measuredFrom) : null, firstResponseAt: null, responseTimeHours: null, respondedWithinOneDay: false });
+
+/**
+ * A notifier whose SLA alerts succeed or fail, remembering how many items each alert had
+ */
+function notifier(name: string, fails: boolean): Notifier & { sent: number[] } {
+  const sent: number[] = [];
+  return {
+    name,
+    sent,
+    sendReport: async () => {},
+    sendBacklog: async () => {},
+    sendSlaAlert: async items => {
+      if (fails) throw new Error(`${name} is down`);
+      sent.push(items.length);
+    },
+  };
+}
+
+let dir: string;
+let stateFile: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'watch-'));
+  stateFile = join(dir, '.watch-state.json');
+  spyOn(console, 'log').mockImplementation(() => {});
+  spyOn(console, 'warn').mockImplementation(() => {});
+  spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  mock.restore();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('AlertState', () => {
+  test('remembers alerted items across a save and load', async () => {
+    const [alerted, other] = testBacklogItems(2).map(({ item }) => item);
+    const state = new AlertState(stateFile);
+    state.markAlerted(alerted, now);
+
+    expect(state.hasAlerted(alerted)).toBe(true);
+    expect(state.hasAlerted(other)).toBe(false);
+
+    await state.save();
+    const loaded = new AlertState(stateFile);
+    await loaded.load();
+
+    expect(loaded.hasAlerted(alerted)).toBe(true);
+    expect(loaded.hasAlerted(other)).toBe(false);
+    expect(await Bun.file(stateFile).json()).toEqual({ alerted: { 'api#0': '2024-01-08T17:00:00.000Z' } });
+  });
+
+  test('forgets items that are no longer open', () => {
+    const [answered, open] = testBacklogItems(2).map(({ item }) => item);
+    const state = new AlertState(stateFile);
+    state.markAlerted(answered);
+    state.markAlerted(open);
+
+    state.prune([open]);
+
+    expect(state.hasAlerted(answered)).toBe(false);
+    expect(state.hasAlerted(open)).toBe(true);
+  });
+
+  test('starts empty without a state file or with an unreadable one', async () => {
+    const [item] = testBacklogItems(1).map(backlogItem => backlogItem.item);
+    const missing = new AlertState(stateFile);
+    await missing.load();
+    await writeFile(stateFile, '{"alerted":');
+    const unreadable = new AlertState(stateFile);
+    await unreadable.load();
+
+    expect(missing.hasAlerted(item)).toBe(false);
+    expect(unreadable.hasAlerted(item)).toBe(false);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring unreadable watch state'));
+  });
+});
+
+describe('findItemsNearingBreach', () => {
+  test('keeps unanswered items from the warning threshold up to the SLA, oldest first', () => {
+    const items = [
+      unanswered(1, '2024-01-08T11:00:00Z'),                          // 6h: at the threshold
+      unanswered(2, '2024-01-08T11:01:00Z'),                          // Just under the threshold
+      unanswered(3, '2024-01-08T09:00:00Z'),                          // 8h: at the SLA
+      unanswered(4, '2024-01-05T16:59:00Z'),                          // Over the SLA across the weekend
+      unanswered(5, '2024-01-01T09:00:00Z', '2024-01-08T10:00:00Z'),  // 7h since its clock started
+      testItem({ number: 6, createdAt: new Date('2024-01-08T10:00:00Z') }),
+    ];
+
+    const nearing = findItemsNearingBreach(items, calendar, 6, now);
+
+    expect(nearing.map(({ item, ageHours, ageBusinessDays }) => [item.number, ageHours, ageBusinessDays])).toEqual([
+      [3, 8, 1],
+      [5, 7, 0.875],
+      [1, 6, 0.75],
+    ]);
+  });
+});
+
+describe('sendSlaAlerts', () => {
+  test('marks the items alerted once a notifier got them', async () => {
+    const alerts = testBacklogItems(2);
+    const state = new AlertState(stateFile);
+    const failing = notifier('Teams', true);
+    const working = notifier('Slack', false);
+
+    expect(await sendSlaAlerts(alerts, [failing, working], state, 8, now)).toBe(1);
+    expect(working.sent).toEqual([2]);
+    expect(alerts.every(({ item }) => state.hasAlerted(item))).toBe(true);
+  });
+
+  test('leaves the items to the next run when no notifier delivered', async () => {
+    const alerts = testBacklogItems(2);
+    const state = new AlertState(stateFile);
+
+    expect(await sendSlaAlerts(alerts, [notifier('Teams', true), notifier('Slack', true)], state, 8, now)).toBe(0);
+    expect(alerts.some(({ item }) => state.hasAlerted(item))).toBe(false);
+  });
+});
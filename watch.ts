@@ -0,0 +1,119 @@
+import type { BacklogItem, BusinessCalendar, IssueData, Notifier } from './types.ts';
+import { calculateWorkingHours } from './utils.ts';
+import { notifyAll } from './notifiers.ts';
+
+/**
+ * Default share of the SLA after which an unanswered item triggers an alert
+ */
+export const DEFAULT_WARN_RATIO = 0.75;
+
+interface AlertStateFile {
+  alerted: Record<string, string>;  // Item key -> ISO time of the alert
+}
+
+/**
+ * Key identifying an item across runs
+ */
+export function alertKey(item: IssueData): string {
+  return `${item.repository}#${item.number}`;
+}
+
+/**
+ * Remembers which items have already been alerted on, persisted to a local JSON file
+ */
+export class AlertState {
+  private stateFile: string;
+  private alerted: Map<string, string>;
+
+  constructor(stateFile: string) {
+    this.stateFile = stateFile;
+    this.alerted = new Map();
+  }
+
+  /**
+   * Load previously alerted items (missing or unreadable file = nothing alerted yet)
+   */
+  async load(): Promise<void> {
+    const file = Bun.file(this.stateFile);
+    if (!(await file.exists())) return;
+
+    try {
+      const content: AlertStateFile = await file.json();
+      this.alerted = new Map(Object.entries(content.alerted || {}));
+    } catch (error: any) {
+      console.warn(`  ⚠️  Ignoring unreadable watch state ${this.stateFile}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check whether an item has already been alerted on
+   */
+  hasAlerted(item: IssueData): boolean {
+    return this.alerted.has(alertKey(item));
+  }
+
+  /**
+   * Record that an item was alerted on
+   */
+  markAlerted(item: IssueData, at: Date = new Date()): void {
+    this.alerted.set(alertKey(item), at.toISOString());
+  }
+
+  /**
+   * Forget items that are no longer waiting for a response (answered or closed)
+   */
+  prune(openItems: IssueData[]): void {
+    const open = new Set(openItems.map(alertKey));
+    for (const key of this.alerted.keys()) {
+      if (!open.has(key)) this.alerted.delete(key);
+    }
+  }
+
+  /**
+   * Write the state file
+   */
+  async save(): Promise<void> {
+    const content: AlertStateFile = { alerted: Object.fromEntries(this.alerted) };
+    await Bun.write(this.stateFile, JSON.stringify(content, null, 2));
+  }
+}
+
+/**
+ * Find unanswered items whose working-hour age is between the warning threshold and the SLA
+ */
+export function findItemsNearingBreach(
+  items: IssueData[],
+  calendar: BusinessCalendar,
+  warnAfterHours: number,
+  now: Date = new Date()
+): BacklogItem[] {
+  const workdayHours = (calendar.workdayEndMinutes - calendar.workdayStartMinutes) / 60;
+
+  return items
+    .filter(item => item.firstResponseAt === null)
+    .map(item => {
+      const ageHours = calculateWorkingHours(item.measuredFrom ?? item.createdAt, now, calendar);
+      return { item, ageHours, ageBusinessDays: ageHours / workdayHours };
+    })
+    .filter(({ ageHours }) => ageHours >= warnAfterHours && ageHours <= calendar.slaHours)
+    .sort((a, b) => b.ageHours - a.ageHours);
+}
+
+/**
+ * Send new alerts to every notifier. The items count as alerted once at least one notifier
+ * got them, so a run where every notifier failed retries them on the next run.
+ * Returns the number of notifiers that succeeded.
+ */
+export async function sendSlaAlerts(
+  alerts: BacklogItem[],
+  notifiers: Notifier[],
+  state: AlertState,
+  slaHours: number,
+  now: Date = new Date()
+): Promise<number> {
+  const delivered = await notifyAll(notifiers, 'SLA alert', notifier => notifier.sendSlaAlert(alerts, slaHours));
+  if (delivered > 0) {
+    alerts.forEach(({ item }) => state.markAlerted(item, now));
+  }
+  return delivered;
+}
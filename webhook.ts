@@ -0,0 +1,71 @@
+import type { BacklogItem, BacklogReport, Config, Notifier, NotifierTemplate, ReportData, WebhookPayload } from './types.ts';
+import { generateJSONReport, serializeDates } from './output.ts';
+
+/**
+ * Post a JSON payload to a generic webhook
+ */
+export async function postToWebhook(
+  webhookUrl: string,
+  payload: WebhookPayload,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to post to webhook: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Sends reports and alerts as JSON documents (see WebhookPayload) to any HTTP endpoint
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name: string;
+  private webhookUrl: string;
+  private headers: Record<string, string>;
+  private template: NotifierTemplate;
+  private config: Config;
+
+  constructor(
+    webhookUrl: string,
+    config: Config,
+    template: NotifierTemplate = 'summary',
+    headers: Record<string, string> = {}
+  ) {
+    this.name = `webhook (${new URL(webhookUrl).host})`;
+    this.webhookUrl = webhookUrl;
+    this.headers = headers;
+    this.template = template;
+    this.config = config;
+  }
+
+  async sendReport(report: ReportData): Promise<void> {
+    const jsonReport = generateJSONReport(report, this.config);
+
+    if (this.template === 'full') {
+      await postToWebhook(this.webhookUrl, { event: 'report', template: 'full', report: jsonReport }, this.headers);
+    } else {
+      const { version, generatedAt, dateRange, overall, weeklySummary, trends } = jsonReport;
+      await postToWebhook(this.webhookUrl, {
+        event: 'report',
+        template: 'summary',
+        report: { version, generatedAt, dateRange, overall, weeklySummary, trends },
+      }, this.headers);
+    }
+  }
+
+  async sendBacklog(report: BacklogReport): Promise<void> {
+    await postToWebhook(this.webhookUrl, { event: 'backlog', backlog: serializeDates(report) }, this.headers);
+  }
+
+  async sendSlaAlert(items: BacklogItem[], slaHours: number): Promise<void> {
+    await postToWebhook(this.webhookUrl, { event: 'sla_alert', slaHours, items: serializeDates(items) }, this.headers);
+  }
+}